@@ -4,6 +4,7 @@ from pydantic import BaseModel
 import json
 import random
 import os
+import uuid
 from typing import List, Optional
 from pathlib import Path
 
@@ -24,13 +25,18 @@ class Score(BaseModel):
     name: str = "Player"
     max_speed: float = 0.0
     level: int = 1
-    items: dict = {} # onigiri, icecream, star
+    items: dict = {} # Count per item type (see ITEMS in src/items.ts)
+    id: Optional[str] = None
+    replay: Optional[dict] = None # Input recording of the run (see RunRecording in src/types.ts)
+    ghost: Optional[dict] = None # Sampled player positions (see GhostData in src/types.ts)
 
 # Chunk Definition Model
 class ChunkElement(BaseModel):
     type: str
     subtype: Optional[str] = None
     blockType: Optional[str] = None
+    rotation: Optional[float] = None # Degrees clockwise about the element's centre: 0, 90, 180, 270
+    mirror: Optional[bool] = None # Flipped left to right before rotating
     x: float
     y: float
     width: float
@@ -49,6 +55,7 @@ STAGES_DIR = Path(__file__).parent / "stages"
 
 @app.post("/scores")
 async def submit_score(score: Score):
+    score.id = uuid.uuid4().hex
     scores_db.append(score)
     # Sort scores descending
     scores_db.sort(key=lambda x: x.score, reverse=True)
@@ -59,17 +66,38 @@ async def submit_score(score: Score):
 
 @app.get("/scores")
 async def get_scores():
-    return scores_db[:10]
+    # Replays and ghosts can be large, so the list only says whether they exist
+    return [
+        {**s.dict(exclude={"replay", "ghost"}), "has_replay": s.replay is not None, "has_ghost": s.ghost is not None}
+        for s in scores_db[:10]
+    ]
+
+@app.get("/scores/{score_id}/replay")
+async def get_score_replay(score_id: str):
+    for s in scores_db:
+        if s.id == score_id and s.replay is not None:
+            return s.replay
+    raise HTTPException(status_code=404, detail="Replay not found")
+
+@app.get("/scores/{score_id}/ghost")
+async def get_score_ghost(score_id: str):
+    for s in scores_db:
+        if s.id == score_id and s.ghost is not None:
+            return s.ghost
+    raise HTTPException(status_code=404, detail="Ghost not found")
 
 @app.get("/stage/random", response_model=List[ChunkDef])
-async def get_random_stage(exclude_id: Optional[str] = None, count: int = 20):
+async def get_random_stage(exclude_id: Optional[str] = None, count: int = 20, seed: Optional[int] = None):
     if not STAGES_DIR.exists():
         raise HTTPException(status_code=500, detail="Stages directory not found")
     
-    stage_files = list(STAGES_DIR.glob("*.json"))
+    # Sorted so a seeded request picks the same stages regardless of filesystem order
+    stage_files = sorted(STAGES_DIR.glob("*.json"))
     if not stage_files:
         raise HTTPException(status_code=404, detail="No stages found")
     
+    rng = random.Random(seed) if seed is not None else random
+
     stages = []
     current_exclude_id = exclude_id
     
@@ -83,7 +111,7 @@ async def get_random_stage(exclude_id: Optional[str] = None, count: int = 20):
         if not available_files:
             available_files = stage_files
         
-        selected_file = random.choice(available_files)
+        selected_file = rng.choice(available_files)
         with open(selected_file, 'r') as f:
             stage_data = json.load(f)
             stages.append(stage_data)
@@ -110,6 +138,15 @@ async def get_start_point():
     
     return stage_data
 
+@app.get("/stage/{stage_id}", response_model=ChunkDef)
+async def get_stage(stage_id: str):
+    # Used by replays to look up the chunks a recorded run pulled
+    for stage_file in STAGES_DIR.glob("*.json"):
+        if stage_file.stem == stage_id:
+            with open(stage_file, 'r') as f:
+                return json.load(f)
+    raise HTTPException(status_code=404, detail="Stage not found")
+
 @app.post("/stage")
 async def publish_stage(stage: ChunkDef):
     if not STAGES_DIR.exists():
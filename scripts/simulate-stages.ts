@@ -0,0 +1,117 @@
+// Runs every stage in backend/stages, plus the fixture stages in scripts/fixtures, through the
+// headless simulation and reports how each run ends.
+//
+// Fixtures are small stages that each exercise a mechanic (slopes, one-way platforms, springs...).
+// They're stage files with an optional "inputs" list, and aren't served to the game. Their results
+// also record the player's path and what happened along the way, so a change in how the mechanic
+// plays out shows up even when the run still ends the same way.
+//
+//   npm run simulate                          # print a report for every stage
+//   npm run simulate -- gap stairs            # only these stage ids
+//   npm run simulate -- --speed 2             # fixed speed (default 1.0), like test mode
+//   npm run simulate -- --inputs inputs.json  # per-stage input scripts: { "<id>": [[tick, "press" | "release"], ...] }
+//   npm run simulate -- --update              # save the results as the baseline
+//   npm run simulate -- --check               # compare against the baseline, exit 1 on any change
+//
+// Run --check after touching GameConfig, Player physics or collision code; if the changes are
+// intended, re-run with --update, commit the new baseline and bump RECORDING_VERSION (src/Recorder.ts)
+// so replays of older runs aren't played back under the new rules.
+import { readdirSync, readFileSync, writeFileSync, existsSync } from 'node:fs';
+import { join, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { runHeadless, type HeadlessResult } from '../src/Simulation';
+import { DEFAULT_GAME_CONFIG } from '../src/config';
+import type { ChunkDef, JumpInput } from '../src/types';
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..');
+const STAGES_DIR = join(ROOT, 'backend', 'stages');
+const FIXTURES_DIR = join(ROOT, 'scripts', 'fixtures');
+const TRACE_INTERVAL = 20; // Ticks between samples of a fixture run's path
+const BASELINE_FILE = join(ROOT, 'scripts', 'stage-baseline.json');
+
+type Summary = Omit<HeadlessResult, 'pickups'> & {
+    trace?: number[]; // Fixtures only: the player's feet y every TRACE_INTERVAL ticks, rounded
+    events?: Record<string, number>; // Fixtures only: how many of each simulation event fired
+};
+
+type Fixture = ChunkDef & { inputs?: Array<[number, JumpInput]> };
+
+function parseArgs(argv: string[]) {
+    const args = { speed: 1.0, inputs: null as string | null, update: false, check: false, ids: [] as string[] };
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg === '--speed') args.speed = parseFloat(argv[++i]);
+        else if (arg === '--inputs') args.inputs = argv[++i];
+        else if (arg === '--update') args.update = true;
+        else if (arg === '--check') args.check = true;
+        else args.ids.push(arg);
+    }
+    return args;
+}
+
+function summarize(result: HeadlessResult): Summary {
+    const { pickups: _pickups, ...summary } = result;
+    return { ...summary, distance: Math.round(summary.distance) };
+}
+
+const args = parseArgs(process.argv.slice(2));
+const inputScripts: Record<string, Array<[number, JumpInput]>> = args.inputs
+    ? JSON.parse(readFileSync(args.inputs, 'utf-8'))
+    : {};
+
+function readStages(dir: string): Fixture[] {
+    if (!existsSync(dir)) return [];
+    return readdirSync(dir)
+        .filter(file => file.endsWith('.json'))
+        .sort()
+        .map(file => JSON.parse(readFileSync(join(dir, file), 'utf-8')));
+}
+
+const stages = readStages(STAGES_DIR).filter(stage => args.ids.length === 0 || args.ids.includes(stage.id));
+const fixtures = readStages(FIXTURES_DIR).filter(stage => args.ids.length === 0 || args.ids.includes(stage.id));
+
+const results: Record<string, Summary> = {};
+for (const stage of [...stages, ...fixtures]) {
+    const key = `${stage.id}@${args.speed.toFixed(1)}`;
+    const isFixture = fixtures.includes(stage);
+    const { inputs, ...chunk } = stage;
+    const trace: number[] = [];
+    const events: Record<string, number> = {};
+    results[key] = summarize(runHeadless({
+        chunks: [chunk],
+        config: DEFAULT_GAME_CONFIG,
+        inputs: inputScripts[stage.id] ?? inputs ?? [],
+        speedMultiplier: args.speed,
+        onTick: isFixture ? sim => {
+            if (sim.tick % TRACE_INTERVAL === 0) trace.push(Math.round(sim.player.position.y));
+            for (const event of sim.events) events[event.type] = (events[event.type] ?? 0) + 1;
+        } : undefined
+    }));
+    if (isFixture) Object.assign(results[key], { trace, events });
+
+    const r = results[key];
+    const outcome = r.cleared ? 'CLEARED' : `died (${r.deathCause ?? 'timeout'})`;
+    const items = `🍙${r.items.onigiri} 🍦${r.items.icecream} ⭐${r.items.star} 🪙${r.coins}`;
+    console.log(`${key.padEnd(36)} ${outcome.padEnd(14)} dist ${String(r.distance).padStart(6)}  score ${String(r.score).padStart(6)}  ${items}`);
+}
+
+if (args.update) {
+    const baseline = existsSync(BASELINE_FILE) ? JSON.parse(readFileSync(BASELINE_FILE, 'utf-8')) : {};
+    writeFileSync(BASELINE_FILE, JSON.stringify({ ...baseline, ...results }, null, 2) + '\n');
+    console.log(`\nBaseline updated: ${BASELINE_FILE}`);
+}
+
+if (args.check) {
+    const baseline: Record<string, Summary> = existsSync(BASELINE_FILE) ? JSON.parse(readFileSync(BASELINE_FILE, 'utf-8')) : {};
+    const changed = Object.keys(results).filter(key => JSON.stringify(baseline[key]) !== JSON.stringify(results[key]));
+    if (changed.length > 0) {
+        console.error(`\n${changed.length} stage(s) differ from the baseline:`);
+        changed.forEach(key => {
+            console.error(`  ${key}`);
+            console.error(`    baseline: ${JSON.stringify(baseline[key] ?? null)}`);
+            console.error(`    now:      ${JSON.stringify(results[key])}`);
+        });
+        process.exit(1);
+    }
+    console.log('\nAll stages match the baseline.');
+}
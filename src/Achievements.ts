@@ -0,0 +1,135 @@
+import { DEFAULT_GAME_CONFIG } from './config';
+import type { AchievementDef, AchievementEvent, AchievementId, AchievementStats } from './types';
+
+const ACHIEVEMENTS_STORAGE_KEY = 'achievements';
+
+// Every achievement, in the order the achievements screen lists them
+export const ACHIEVEMENTS: Record<AchievementId, AchievementDef> = {
+    level8: { name: 'Top Level', description: 'Reach Lv.8', icon: '🏔️', stat: 'level', goal: 8 },
+    speed3: { name: 'Speed Demon', description: 'Reach 3x speed', icon: '⚡', stat: 'speed', goal: 3 },
+    stars10: { name: 'Starry Night', description: 'Collect 10 stars in one run', icon: '⭐', stat: 'stars', goal: 10 },
+    nearMiss5: { name: 'Close Shave', description: 'Slip past 5 thorns by a hair in one run', icon: '😰', stat: 'nearMisses', goal: 5 },
+    maxCombo: { name: 'On Fire', description: 'Build the combo all the way up', icon: '🔥', stat: 'combo', goal: DEFAULT_GAME_CONFIG.comboMax },
+    stomps50: { name: 'Stomper', description: 'Stomp 50 enemies', icon: '🥾', stat: 'totalStomps', goal: 50 },
+    coins500: { name: 'Piggy Bank', description: 'Collect 500 coins', icon: '🪙', stat: 'totalCoins', goal: 500 },
+    testClear3: { name: 'Stage Master', description: 'Clear a custom stage at 3.0 in test mode', icon: '🛠️', stat: 'testClearSpeed', goal: 3 }
+};
+
+export const ACHIEVEMENT_IDS = Object.keys(ACHIEVEMENTS) as AchievementId[];
+
+// One row of the achievements screen
+export interface AchievementStatus {
+    id: AchievementId;
+    def: AchievementDef;
+    progress: number; // Best the stat has been, capped at the goal
+    unlockedAt: number | null; // Date.now() when it unlocked
+}
+
+interface SavedAchievements {
+    unlocked: Partial<Record<AchievementId, number>>;
+    best: Partial<Record<AchievementId, number>>;
+    totalStomps: number;
+    totalCoins: number;
+}
+
+// Progress towards the achievements, worked out from game events and kept in localStorage.
+// Run counts start over with each run; totals carry on from run to run.
+export class AchievementTracker {
+    private saved: SavedAchievements;
+    private stats: AchievementStats;
+
+    constructor() {
+        this.saved = this.load();
+        this.stats = this.freshStats();
+    }
+
+    public startRun() {
+        this.stats = this.freshStats();
+    }
+
+    // Update the stats from something that happened. Returns any achievements it unlocked.
+    public handleEvent(event: AchievementEvent): AchievementId[] {
+        const stats = this.stats;
+        if (event.type === 'levelUp') {
+            stats.level = Math.max(stats.level, event.level);
+        } else if (event.type === 'speedUp') {
+            stats.speed = Math.max(stats.speed, event.speed);
+        } else if (event.type === 'item' && event.subtype === 'star') {
+            stats.stars++;
+        } else if (event.type === 'stomp') {
+            stats.totalStomps++;
+        } else if (event.type === 'coin') {
+            stats.totalCoins++;
+        } else if (event.type === 'score') {
+            if (event.source === 'nearMiss') stats.nearMisses++;
+            stats.combo = Math.max(stats.combo, event.combo);
+        } else if (event.type === 'testClear') {
+            stats.testClearSpeed = Math.max(stats.testClearSpeed, event.speed);
+        } else {
+            return [];
+        }
+
+        const unlocked = ACHIEVEMENT_IDS.filter(id => !this.saved.unlocked[id] && this.progressOf(id) >= ACHIEVEMENTS[id].goal);
+        if (unlocked.length > 0) {
+            for (const id of unlocked) this.saved.unlocked[id] = Date.now();
+            this.save();
+        }
+        return unlocked;
+    }
+
+    // Keep the run's progress and totals once it's over
+    public endRun() {
+        this.save();
+    }
+
+    public list(): AchievementStatus[] {
+        return ACHIEVEMENT_IDS.map(id => ({
+            id,
+            def: ACHIEVEMENTS[id],
+            progress: Math.min(ACHIEVEMENTS[id].goal, Math.max(this.saved.best[id] ?? 0, this.progressOf(id))),
+            unlockedAt: this.saved.unlocked[id] ?? null
+        }));
+    }
+
+    private progressOf(id: AchievementId): number {
+        return this.stats[ACHIEVEMENTS[id].stat];
+    }
+
+    private freshStats(): AchievementStats {
+        return {
+            level: 1,
+            speed: 1,
+            stars: 0,
+            nearMisses: 0,
+            combo: 1,
+            testClearSpeed: 0,
+            totalStomps: this.saved.totalStomps,
+            totalCoins: this.saved.totalCoins
+        };
+    }
+
+    private save() {
+        for (const id of ACHIEVEMENT_IDS) {
+            this.saved.best[id] = Math.max(this.saved.best[id] ?? 0, this.progressOf(id));
+        }
+        this.saved.totalStomps = this.stats.totalStomps;
+        this.saved.totalCoins = this.stats.totalCoins;
+        localStorage.setItem(ACHIEVEMENTS_STORAGE_KEY, JSON.stringify(this.saved));
+    }
+
+    private load(): SavedAchievements {
+        const saved: SavedAchievements = { unlocked: {}, best: {}, totalStomps: 0, totalCoins: 0 };
+        try {
+            const parsed = JSON.parse(localStorage.getItem(ACHIEVEMENTS_STORAGE_KEY) ?? 'null') as Partial<SavedAchievements> | null;
+            if (parsed) {
+                if (parsed.unlocked && typeof parsed.unlocked === 'object') saved.unlocked = parsed.unlocked;
+                if (parsed.best && typeof parsed.best === 'object') saved.best = parsed.best;
+                if (Number.isFinite(parsed.totalStomps)) saved.totalStomps = parsed.totalStomps!;
+                if (Number.isFinite(parsed.totalCoins)) saved.totalCoins = parsed.totalCoins!;
+            }
+        } catch (e) {
+            console.error("Failed to load achievements", e);
+        }
+        return saved;
+    }
+}
@@ -1,34 +1,64 @@
-import { StageManager } from './StageManager';
-import { Player } from './Player';
-import { API_BASE_URL, LOGICAL_HEIGHT, LOGICAL_WIDTH } from './config';
-import type { GameConfig } from './types';
+import { Simulation } from './Simulation';
+import { Random } from './Random';
+import { RECORDING_VERSION, RunRecorder } from './Recorder';
+import { GhostRecorder, GhostRunner } from './Ghost';
+import { ACTION_LABELS, InputManager, keyLabel } from './Input';
+import { CoinWallet } from './Wallet';
+import { ACHIEVEMENTS, AchievementTracker } from './Achievements';
+import { PlayerProfile } from './Profile';
+import { ITEMS, ITEM_TYPES } from './items';
+import type { BindableAction, InputAction, InputSource } from './Input';
+import { API_BASE_URL, DEFAULT_GAME_CONFIG, FIXED_TIMESTEP, LOGICAL_HEIGHT, LOGICAL_WIDTH, MAX_TICKS_PER_FRAME, RESUME_COUNTDOWN } from './config';
+import type { AchievementId, ChunkDef, GameConfig, GhostData, JumpInput, RunRecording, ScoreEntry, SimulationEvent } from './types';
 
 import MESSAGES from './game_over_messages.json';
 
 export class Game {
     private canvas: HTMLCanvasElement;
     private ctx: CanvasRenderingContext2D;
-    private stageManager!: StageManager;
-    private player!: Player;
+    private sim!: Simulation;
     private lastTime: number = 0;
+    private accumulator: number = 0; // Unsimulated time carried over between frames
     private gameLoopId: number | null = null;
     private isGameOver: boolean = false;
-    private score: number = 0;
-    // private scoreOffset: number = 0; // Removed in favor of direct score manipulation
-    private lastScoreDistance: number = 0;
-    private maxSpeed: number = 0;
-
-    private collectedItems = {
-        onigiri: 0,
-        icecream: 0,
-        star: 0
-    };
 
-    private speedMultiplier: number = 1.0;
-    private scrollSpeed: number = 6; // pixels per frame (approx 60fps)
+    // Pause (the loop is stopped while paused, then a countdown runs before play continues)
+    private isPaused: boolean = false;
+    private resumeCountdown: number = 0; // ms left, > 0 while counting down
+    private countdownLastTime: number = 0;
+
+    // Seeded randomness for the current run (streams forked per purpose)
+    private random: Random = new Random(Random.createSeed());
+    private bgmRandom: Random = this.random.fork('bgm');
+    private effectRandom: Random = this.random.fork('effects');
+
+    // Recording & Replay
+    private recorder = new RunRecorder();
+    private wallet = new CoinWallet();
+    private achievements = new AchievementTracker();
+    private profile = new PlayerProfile();
+    private lastRecording: RunRecording | null = null;
+    private replay: {
+        recording: RunRecording;
+        chunks: Array<{ tick: number, chunk: ChunkDef }>;
+        inputIndex: number;
+        playing: boolean;
+        speed: number;
+        accumulator: number;
+        lastTime: number;
+        returnScreen: 'title' | 'gameover';
+    } | null = null;
+
+    // Ghost Racing
+    private ghostRecorder = new GhostRecorder();
+    private lastGhost: GhostData | null = null;
+    private ghostChoice: { label: string, data: GhostData } | null = null; // Ghost to race in the next run
+    private ghost: GhostRunner | null = null;
 
     private canReturnToTitle: boolean = false;
 
+    private input!: InputManager;
+
     private backgroundImage!: HTMLImageElement;
     private backgroundScoreImage!: HTMLImageElement;
 
@@ -41,17 +71,14 @@ export class Game {
     private offsetX: number = 0;
     private offsetY: number = 0;
 
-    private readonly config: GameConfig = {
-        gravity: 0.6, // Reasonable gravity
-        jumpForce: -15, // Jump force
-        baseSpeed: 6, // Base speed
-        speedIncreaseRate: 0.1 // Slower speed increase
-    };
+    private readonly config: GameConfig = { ...DEFAULT_GAME_CONFIG };
+    private readonly testMode: boolean = new URLSearchParams(window.location.search).get('mode') === 'test'; // Test play from StageMaker
+    private readonly debug: boolean = new URLSearchParams(window.location.search).has('debug'); // ?debug shows tuning readouts
+    private frameCost = { update: 0, draw: 0 }; // Smoothed ms spent per frame, for the ?debug budget readout
 
     private loadingAnimationId: number | null = null;
 
     // Level & Visuals
-    private level: number = 1;
     private levelUpEffect = {
         active: false,
         timer: 0,
@@ -66,7 +93,11 @@ export class Game {
         life: number;
         color: string;
         size: number;
+        gravity?: number; // Pulls vy down each frame, e.g. for falling debris
     }> = [];
+    private scorePopups: Array<{ text: string, x: number, y: number, life: number }> = []; // "+120" rising off the player
+    private achievementToasts: AchievementId[] = []; // Unlocks waiting to be announced, the first one showing
+    private toastTimer: number = 0; // ms left for the toast showing
 
     constructor(canvasId: string) {
         this.canvas = document.getElementById(canvasId) as HTMLCanvasElement;
@@ -90,8 +121,10 @@ export class Game {
         this.itemGetSound = new Audio('assets/sound/item_get.wav');
         this.gameOverSound = new Audio('assets/sound/gameover.wav');
 
-        this.stageManager = new StageManager(this.config);
-        this.player = new Player(this.config, 100, LOGICAL_HEIGHT - 300);
+        this.sim = new Simulation(this.config);
+        this.sim.stageManager.onChunkAdded = (id) => {
+            if (!this.replay) this.recorder.recordChunk(this.sim.tick, id);
+        };
 
         // Preload Assets
         await this.preloadAssets();
@@ -120,43 +153,21 @@ export class Game {
     }
 
     private setupInputs() {
-        // Input handling
-        window.addEventListener('keydown', (e) => {
-            if (e.code === 'Space') {
-                if (this.isGameOver) {
-                    if (this.canReturnToTitle) {
-                        this.returnToTitle();
-                    }
-                } else {
-                    const startScreen = document.getElementById('start-screen');
-                    if (startScreen && startScreen.style.display !== 'none') {
-                        document.getElementById('start-btn')?.click();
-                    } else {
-                        if (this.player.jump()) {
-                            this.jumpSound.currentTime = 0;
-                            this.jumpSound.play().catch(() => { });
-                        }
-                    }
-                }
-            }
+        // Input handling (keyboard, touch and gamepads all arrive as actions)
+        this.input = new InputManager();
+        this.input.onAction = (action, source) => this.handleAction(action, source);
+        this.input.addTouchTarget(this.canvas);
+
+        // Auto-pause when the tab is hidden or the window loses focus (e.g. a phone notification)
+        document.addEventListener('visibilitychange', () => {
+            if (document.hidden) this.pause();
         });
-
-        // Touch handling
-        this.canvas.addEventListener('touchstart', (e) => {
-            e.preventDefault(); // Prevent scrolling
-            if (this.isGameOver) {
-                this.start();
-            } else {
-                if (this.player.jump()) {
-                    this.jumpSound.currentTime = 0;
-                    this.jumpSound.play().catch(() => { });
-                }
-            }
-        }, { passive: false });
+        window.addEventListener('blur', () => this.pause());
 
         // UI Event Listeners
         const startBtn = document.getElementById('start-btn');
         const nameInput = document.getElementById('player-name-input') as HTMLInputElement;
+        if (nameInput) nameInput.value = this.profile.name;
 
         const startGame = () => {
             const name = nameInput?.value.trim().toUpperCase();
@@ -164,6 +175,7 @@ export class Game {
                 window.location.href = '/stagemaker.html';
                 return;
             }
+            if (nameInput) this.profile.setName(nameInput.value);
 
             // Show loading screen for Start Game
             const loadingScreen = document.getElementById('loading-screen');
@@ -202,6 +214,26 @@ export class Game {
             });
         }
 
+        // Ghost Toggle (Off <-> Personal Best)
+        const ghostBtn = document.getElementById('ghost-toggle-btn');
+        if (ghostBtn) {
+            ghostBtn.addEventListener('click', () => {
+                if (this.ghostChoice) {
+                    this.ghostChoice = null;
+                } else {
+                    const best = this.loadPersonalBest();
+                    if (!best) {
+                        alert("No personal best yet. Finish a run first!");
+                        return;
+                    }
+                    this.ghostChoice = { label: `BEST ${best.score}`, data: best.ghost };
+                }
+                this.updateGhostButton();
+            });
+        }
+        this.updateGhostButton();
+        this.updateWalletDisplay();
+
         // Rankings Buttons
         const rankingsBtnStart = document.getElementById('rankings-btn-start');
         if (rankingsBtnStart) {
@@ -230,38 +262,333 @@ export class Game {
             returnTitleBtn.addEventListener('click', () => this.returnToTitle());
         }
 
+        // Pause
+        document.getElementById('pause-btn')?.addEventListener('click', () => this.togglePause());
+        document.getElementById('pause-resume-btn')?.addEventListener('click', () => this.resume());
+        document.getElementById('pause-quit-btn')?.addEventListener('click', () => {
+            if (new URLSearchParams(window.location.search).get('mode') === 'test') {
+                window.location.href = '/stagemaker.html';
+            } else {
+                this.returnToTitle();
+            }
+        });
+
         // Mobile Jump Button
         const jumpBtn = document.getElementById('mobile-jump-btn');
         if (jumpBtn) {
-            jumpBtn.addEventListener('touchstart', (e) => {
-                e.preventDefault();
-                if (this.isGameOver) {
-                    this.start();
-                } else {
-                    if (this.player.jump()) {
-                        this.jumpSound.currentTime = 0;
-                        this.jumpSound.play().catch(() => { });
-                    }
+            this.input.addJumpButton(jumpBtn);
+        }
+
+        // Achievements
+        document.getElementById('achievements-btn')?.addEventListener('click', () => this.showAchievements());
+        document.getElementById('achievements-close-btn')?.addEventListener('click', () => {
+            document.getElementById('achievements-screen')?.classList.add('hidden');
+        });
+
+        // Stats & Profile
+        document.getElementById('stats-btn')?.addEventListener('click', () => this.showStats());
+        document.getElementById('stats-close-btn')?.addEventListener('click', () => {
+            document.getElementById('stats-screen')?.classList.add('hidden');
+        });
+        document.getElementById('stats-export-btn')?.addEventListener('click', () => this.exportProfile());
+
+        const importInput = document.getElementById('stats-import-file') as HTMLInputElement | null;
+        document.getElementById('stats-import-btn')?.addEventListener('click', () => importInput?.click());
+        importInput?.addEventListener('change', () => {
+            const file = importInput.files?.[0];
+            if (!file) return;
+
+            const reader = new FileReader();
+            reader.onload = (event) => {
+                if (!this.profile.import(event.target?.result as string)) {
+                    alert("Failed to import profile: Not a profile file.");
+                    return;
                 }
-            }, { passive: false });
+                if (nameInput) nameInput.value = this.profile.name;
+                this.showStats();
+            };
+            reader.readAsText(file);
 
-            // Also handle click for testing on desktop
-            jumpBtn.addEventListener('click', (e) => {
-                e.preventDefault();
-                if (this.isGameOver) {
-                    this.start();
-                } else {
-                    if (this.player.jump()) {
-                        this.player.jump(); // Sound played inside jump? No, logic above duplicated.
-                        // Correcting logic from original file
-                        this.jumpSound.currentTime = 0;
-                        this.jumpSound.play().catch(() => { });
-                    }
+            // Reset input so same file can be selected again
+            importInput.value = '';
+        });
+
+        // Key Bindings
+        document.getElementById('controls-btn')?.addEventListener('click', () => this.showControls());
+        document.getElementById('controls-close-btn')?.addEventListener('click', () => {
+            document.getElementById('controls-screen')?.classList.add('hidden');
+        });
+        document.getElementById('controls-reset-btn')?.addEventListener('click', () => {
+            this.input.resetBindings();
+            this.showControls();
+        });
+        this.updateKeyHints();
+
+        // Replay
+        document.getElementById('replay-btn')?.addEventListener('click', () => {
+            if (this.lastRecording) this.startReplay(this.lastRecording, 'gameover');
+        });
+        document.getElementById('replay-play-btn')?.addEventListener('click', () => this.toggleReplayPlaying());
+        document.getElementById('replay-exit-btn')?.addEventListener('click', () => this.exitReplay());
+
+        const replayScrub = document.getElementById('replay-scrub') as HTMLInputElement | null;
+        replayScrub?.addEventListener('input', () => this.seekReplay(parseInt(replayScrub.value)));
+
+        const replaySpeed = document.getElementById('replay-speed') as HTMLSelectElement | null;
+        replaySpeed?.addEventListener('change', () => {
+            if (this.replay) this.replay.speed = parseFloat(replaySpeed.value);
+        });
+    }
+
+    // Every input arrives here as an action, whatever device it came from
+    private handleAction(action: InputAction, source: InputSource) {
+        if (action === 'pause') {
+            this.togglePause();
+            return;
+        }
+        if (action === 'jumpRelease') {
+            this.releaseJump();
+            return;
+        }
+
+        // Jump press and confirm: jump in a run, otherwise drive whatever screen is showing
+        if (this.replay) {
+            this.toggleReplayPlaying();
+        } else if (this.isPaused) {
+            if (action === 'confirm') this.resume();
+        } else if (this.isGameOver) {
+            if (source === 'touch') {
+                // A tap starts the next run straight away, as it always has on mobile
+                if (this.gameLoopId) {
+                    cancelAnimationFrame(this.gameLoopId);
+                    this.gameLoopId = null;
+                }
+                this.start();
+            } else if (this.canReturnToTitle) {
+                this.returnToTitle();
+            }
+        } else {
+            const startScreen = document.getElementById('start-screen');
+            if (startScreen && startScreen.style.display !== 'none') {
+                // Not while a screen on top of it is open
+                const overlayOpen = ['controls-screen', 'achievements-screen', 'stats-screen']
+                    .some(id => document.getElementById(id)?.classList.contains('hidden') === false);
+                if (!overlayOpen) {
+                    document.getElementById('start-btn')?.click();
                 }
+            } else if (action === 'jumpPress') {
+                this.pressJump();
+            }
+        }
+    }
+
+    // Key binding screen: click an action, then press the key to use for it
+    private showControls() {
+        const screen = document.getElementById('controls-screen');
+        const list = document.getElementById('controls-list');
+        if (!screen || !list) return;
+
+        list.innerHTML = '';
+        const bindings = this.input.getBindings();
+        (Object.keys(ACTION_LABELS) as BindableAction[]).forEach(action => {
+            const row = document.createElement('div');
+            row.className = "flex items-center justify-between gap-8 bg-white/10 rounded-xl px-6 py-3";
+
+            const label = document.createElement('span');
+            label.className = "text-2xl font-black text-white";
+            label.innerText = ACTION_LABELS[action];
+
+            const keyBtn = document.createElement('button');
+            keyBtn.className = "min-w-[10rem] px-4 py-2 bg-yellow-400 border-4 border-black rounded-xl text-xl font-black text-black shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] hover:scale-105 transition-transform";
+            keyBtn.innerText = bindings[action].map(keyLabel).join(' / ') || '---';
+            keyBtn.addEventListener('click', () => {
+                keyBtn.innerText = 'PRESS A KEY...';
+                this.input.captureNextKey((code) => {
+                    this.input.rebind(action, code);
+                    this.showControls();
+                });
             });
+
+            row.appendChild(label);
+            row.appendChild(keyBtn);
+            list.appendChild(row);
+        });
+
+        screen.classList.remove('hidden');
+        this.updateKeyHints();
+    }
+
+    private showAchievements() {
+        const screen = document.getElementById('achievements-screen');
+        const list = document.getElementById('achievements-list');
+        if (!screen || !list) return;
+
+        list.innerHTML = this.achievements.list().map(({ def, progress, unlockedAt }) => `
+            <div class="flex items-center gap-4 rounded-xl px-6 py-3 ${unlockedAt ? 'bg-yellow-400/20 border-2 border-yellow-400' : 'bg-white/10'}">
+                <span class="text-4xl ${unlockedAt ? '' : 'grayscale opacity-50'}">${def.icon}</span>
+                <div class="flex-1 text-left">
+                    <div class="text-xl font-black ${unlockedAt ? 'text-yellow-400' : 'text-white'}">${def.name}</div>
+                    <div class="text-sm font-bold text-gray-300">${def.description}</div>
+                    <div class="mt-1 h-2 bg-black/50 rounded-full overflow-hidden">
+                        <div class="h-full bg-green-400" style="width: ${progress / def.goal * 100}%"></div>
+                    </div>
+                </div>
+                <span class="text-sm font-mono text-gray-300 whitespace-nowrap">${unlockedAt ? new Date(unlockedAt).toLocaleDateString() : `${+progress.toFixed(1)} / ${def.goal}`}</span>
+            </div>
+        `).join('');
+
+        screen.classList.remove('hidden');
+    }
+
+    // Personal bests, a chart of scores over time and the latest runs from the local profile
+    private showStats() {
+        const screen = document.getElementById('stats-screen');
+        if (!screen) return;
+
+        const bests = this.profile.getBests();
+        const runs = this.profile.getRuns();
+
+        const bestsEl = document.getElementById('stats-bests');
+        if (bestsEl) {
+            const tiles: Array<[string, string]> = [
+                ['Best Score', bests.score.toString()],
+                ['Best Level', bests.level.toString()],
+                ['Max Speed', bests.maxSpeed.toFixed(2) + 'x'],
+                ['Longest Run', formatDuration(bests.duration)],
+                ['Most Coins', bests.coins.toString()]
+            ];
+            bestsEl.innerHTML = tiles.map(([label, value]) => `
+                <div class="bg-black/40 rounded-xl p-3">
+                    <div class="text-gray-400 text-xs font-bold uppercase">${label}</div>
+                    <div class="text-2xl font-mono text-yellow-400">${value}</div>
+                </div>
+            `).join('');
+        }
+
+        const runsEl = document.getElementById('stats-runs');
+        if (runsEl) {
+            runsEl.innerHTML = runs.length === 0
+                ? '<div class="text-gray-400 font-bold">No runs yet. Go play!</div>'
+                : runs.slice(-20).reverse().map(run => `
+                    <div class="flex justify-between items-center gap-4 text-sm">
+                        <span class="font-mono text-gray-400">${new Date(run.date).toLocaleString()}</span>
+                        <span class="font-bold text-gray-300">Lv.${run.level} | ${run.maxSpeed.toFixed(2)}x | ${formatDuration(run.duration)}${run.deathCause ? ` | ${run.deathCause}` : ''}</span>
+                        <span class="font-mono text-lg text-green-400">${run.score}</span>
+                    </div>
+                `).join('');
+        }
+
+        screen.classList.remove('hidden');
+        this.drawStatsChart();
+    }
+
+    // Score of each run as a line, with the best so far stepping up behind it
+    private drawStatsChart() {
+        const chart = document.getElementById('stats-chart') as HTMLCanvasElement | null;
+        const ctx = chart?.getContext('2d');
+        if (!chart || !ctx) return;
+
+        const runs = this.profile.getRuns();
+        ctx.clearRect(0, 0, chart.width, chart.height);
+        if (runs.length === 0) return;
+
+        const pad = 30;
+        const top = Math.max(...runs.map(run => run.score), 1);
+        const xOf = (i: number) => pad + (runs.length === 1 ? 0.5 : i / (runs.length - 1)) * (chart.width - pad * 2);
+        const yOf = (score: number) => chart.height - pad - score / top * (chart.height - pad * 2);
+
+        // Axis, labelled with the top score
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.moveTo(pad, pad);
+        ctx.lineTo(pad, chart.height - pad);
+        ctx.lineTo(chart.width - pad, chart.height - pad);
+        ctx.stroke();
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+        ctx.font = 'bold 14px monospace';
+        ctx.fillText(top.toString(), pad + 6, pad + 4);
+
+        // Best so far
+        let best = 0;
+        ctx.strokeStyle = '#f6e05e'; // Yellow-400
+        ctx.beginPath();
+        runs.forEach((run, i) => {
+            best = Math.max(best, run.score);
+            if (i === 0) ctx.moveTo(xOf(i), yOf(best));
+            else ctx.lineTo(xOf(i), yOf(best));
+        });
+        ctx.stroke();
+
+        // Each run
+        ctx.strokeStyle = '#68d391'; // Green-400
+        ctx.lineWidth = 3;
+        ctx.beginPath();
+        runs.forEach((run, i) => {
+            if (i === 0) ctx.moveTo(xOf(i), yOf(run.score));
+            else ctx.lineTo(xOf(i), yOf(run.score));
+        });
+        ctx.stroke();
+        ctx.fillStyle = '#68d391';
+        runs.forEach((run, i) => {
+            ctx.beginPath();
+            ctx.arc(xOf(i), yOf(run.score), 4, 0, Math.PI * 2);
+            ctx.fill();
+        });
+    }
+
+    // Download the profile as a JSON file, to import in another browser
+    private exportProfile() {
+        const blob = new Blob([this.profile.export()], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `runmeme-profile-${this.profile.name}.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+    }
+
+    // Keep on-screen key hints in line with the current bindings
+    private updateKeyHints() {
+        const bindings = this.input.getBindings();
+
+        const jumpHint = document.getElementById('jump-hint');
+        if (jumpHint) {
+            const keys = bindings.jump.map(keyLabel).join(' / ');
+            jumpHint.innerText = keys ? `PRESS ${keys.toUpperCase()} TO JUMP` : 'TAP TO JUMP';
+        }
+
+        const pauseHint = document.getElementById('pause-hint');
+        if (pauseHint) {
+            const keys = bindings.pause.map(keyLabel).join(' / ');
+            pauseHint.innerText = keys ? `${keys.toUpperCase()} to resume` : '';
         }
     }
 
+    // Live jump input: stamped with the current tick so a replay applies it at the same point
+    private pressJump() {
+        if (this.replay || this.isGameOver || this.isPaused) return;
+        this.recorder.recordInput(this.sim.tick, 'press');
+        this.applyJumpInput('press');
+    }
+
+    private releaseJump() {
+        if (this.replay || this.isGameOver || this.isPaused || this.gameLoopId === null) return;
+        this.recorder.recordInput(this.sim.tick, 'release');
+        this.applyJumpInput('release');
+    }
+
+    private applyJumpInput(input: JumpInput) {
+        const jumped = this.sim.applyInput(input);
+        if (jumped) this.playJumpSound();
+    }
+
+    private playJumpSound() {
+        if (this.replay) return;
+        this.jumpSound.currentTime = 0;
+        this.jumpSound.play().catch(() => { });
+    }
+
     private startLoadingAnimation() {
         if (this.loadingAnimationId !== null) return;
 
@@ -303,9 +630,7 @@ export class Game {
             'assets/soil.png',
             'assets/stone.png',
             'assets/flower.png',
-            'assets/onigiri.png',
-            'assets/icecream.png',
-            'assets/star.png',
+            ...ITEM_TYPES.flatMap(type => ITEMS[type].sprite ?? []),
             'assets/thorn.png',
             'assets/title.png'
         ];
@@ -389,7 +714,7 @@ export class Game {
         }
 
         const tracks = ['assets/sound/stage1.mp3', 'assets/sound/stage2.mp3', 'assets/sound/stage3.mp3', 'assets/sound/stage4.mp3'];
-        const randomTrack = tracks[Math.floor(Math.random() * tracks.length)];
+        const randomTrack = this.bgmRandom.pick(tracks);
 
         this.currentBgm = new Audio(randomTrack);
         this.currentBgm.volume = 0.5; // Reasonable volume
@@ -410,21 +735,14 @@ export class Game {
             this.currentBgm = null;
         }
 
-        this.isGameOver = false;
-        this.score = 0;
-        // this.scoreOffset = 0;
-        this.lastScoreDistance = 0;
-        this.maxSpeed = 1.0;
-        this.collectedItems = { onigiri: 0, icecream: 0, star: 0 };
-        this.speedMultiplier = 1.0;
-        this.timeSinceLastSpeedIncrease = 0;
-        this.totalPlayTime = 0;
-
-        this.level = 1;
-        this.particles = [];
-        this.levelUpEffect.active = false;
-        this.stageManager.reset();
-        this.player = new Player(this.config, 100, LOGICAL_HEIGHT - 300);
+        // Seed the run: a chosen ghost's seed so both runs see the same stage,
+        // else ?seed=123 replays the same run, otherwise pick a fresh one
+        const seedParam = Random.parseSeed(new URLSearchParams(window.location.search).get('seed'));
+        this.resetSimulation(this.ghostChoice?.data.seed ?? seedParam ?? Random.createSeed());
+        this.recorder.start(this.random.seed);
+        this.ghostRecorder.start(this.random.seed);
+        this.ghost = this.ghostChoice ? new GhostRunner(this.config, this.ghostChoice.data, this.ghostChoice.label) : null;
+        this.achievements.startRun();
 
         // Hide rankings
         const rankingsEl = document.getElementById('rankings-screen');
@@ -442,7 +760,14 @@ export class Game {
         const mobileControls = document.getElementById('mobile-controls');
         if (mobileControls) mobileControls.style.display = 'flex';
 
+        // Clear any pause left over from the previous run
+        this.isPaused = false;
+        this.resumeCountdown = 0;
+        document.getElementById('pause-screen')?.classList.add('hidden');
+        document.getElementById('pause-btn')?.classList.remove('hidden');
+
         this.lastTime = performance.now();
+        this.accumulator = 0;
 
         // Check for Test Mode
         const urlParams = new URLSearchParams(window.location.search);
@@ -455,24 +780,40 @@ export class Game {
             if (testStageStr) {
                 const testStage = JSON.parse(testStageStr);
                 console.log("Game Reset: Setting test stage", testStage);
-                this.stageManager.setTestStage(testStage);
+                this.sim.stageManager.setTestStage(testStage);
 
 
                 if (testSpeedStr) {
-                    this.speedMultiplier = parseFloat(testSpeedStr);
+                    this.sim.speedMultiplier = parseFloat(testSpeedStr);
                     this.config.speedIncreaseRate = 0;
                 }
 
                 // Show Test Mode UI
                 const scoreEl = document.createElement('div');
                 scoreEl.className = "absolute top-4 right-4 text-white font-bold text-2xl drop-shadow-md z-50";
-                scoreEl.innerText = `TEST MODE - SPEED: ${this.speedMultiplier.toFixed(1)}`;
+                scoreEl.innerText = `TEST MODE - SPEED: ${this.sim.speedMultiplier.toFixed(1)}`;
                 document.body.appendChild(scoreEl);
             }
         }
 
+    }
+
+    // Restore everything the simulation depends on, so a seed + inputs always play out the same
+    private resetSimulation(seed: number) {
+        this.isGameOver = false;
+
+        this.random = new Random(seed);
+        this.bgmRandom = this.random.fork('bgm');
+        this.effectRandom = this.random.fork('effects');
+
+        this.particles = [];
+        this.scorePopups = [];
+        this.achievementToasts = [];
+        this.levelUpEffect.active = false;
+        this.sim.reset(seed);
+
         // Randomize Background
-        const bgNum = Math.floor(Math.random() * 5) + 1; // 1 to 5
+        const bgNum = this.random.fork('background').int(5) + 1; // 1 to 5
         const bgPath = bgNum === 1 ? 'assets/background.png' : `assets/background${bgNum}.png`;
         if (this.backgroundImage) {
             this.backgroundImage.src = bgPath;
@@ -482,32 +823,150 @@ export class Game {
     private loop(timestamp: number) {
         if (this.isGameOver) return;
 
-        let dt = timestamp - this.lastTime;
+        let frameTime = timestamp - this.lastTime;
         this.lastTime = timestamp;
 
-        // Cap dt to prevent huge jumps (e.g. tab switching)
-        if (dt > 50) dt = 50;
+        // Cap frame time to prevent huge catch-ups (e.g. tab switching)
+        frameTime = Math.min(frameTime, FIXED_TIMESTEP * MAX_TICKS_PER_FRAME);
+        this.accumulator += frameTime;
 
-        // Update
-        this.update(dt);
+        // Update in fixed ticks so every device runs the same simulation
+        const updateStart = performance.now();
+        while (this.accumulator >= FIXED_TIMESTEP) {
+            this.step();
+            this.accumulator -= FIXED_TIMESTEP;
+            if (this.isGameOver) break;
+        }
 
-        // Draw
-        this.draw();
+        // Draw, interpolating between the last two ticks
+        const drawStart = performance.now();
+        this.draw(this.accumulator / FIXED_TIMESTEP);
+
+        // Exponential moving average, so the readout is steady enough to read
+        const drawEnd = performance.now();
+        this.frameCost.update += (drawStart - updateStart - this.frameCost.update) * 0.1;
+        this.frameCost.draw += (drawEnd - drawStart - this.frameCost.draw) * 0.1;
 
         this.gameLoopId = requestAnimationFrame((t) => this.loop(t));
     }
 
-    private timeSinceLastSpeedIncrease: number = 0;
-    private totalPlayTime: number = 0;
+    // Advance the simulation by one tick
+    private step() {
+        if (this.replay) {
+            // Apply recorded inputs exactly where they happened in the original run
+            const inputs = this.replay.recording.inputs;
+            while (this.replay.inputIndex < inputs.length && inputs[this.replay.inputIndex][0] <= this.sim.tick) {
+                this.applyJumpInput(inputs[this.replay.inputIndex][1]);
+                this.replay.inputIndex++;
+            }
+        }
+
+        const tick = this.sim.tick;
+        this.sim.step();
+        this.sim.events.forEach(event => this.handleSimulationEvent(event));
+        this.updateEffects(FIXED_TIMESTEP);
+
+        if (!this.replay) {
+            // Test play doesn't count towards achievements (it could start fast, or farm a stage full of coins);
+            // only clearing the stage does, see onTestClear
+            if (!this.testMode) {
+                this.sim.events.forEach(event => this.announceAchievements(this.achievements.handleEvent(event)));
+            }
+            this.ghostRecorder.sample(tick, this.sim.stageManager.getTotalDistance(), this.sim.player);
+        }
+        this.ghost?.update(FIXED_TIMESTEP, this.sim.currentSpeed);
+
+        if (this.sim.isDead) {
+            this.gameOver();
+        } else if (this.sim.isCourseComplete()) {
+            // Test mode: player passed the stage
+            this.onTestClear();
+        }
+    }
+
+    private togglePause() {
+        if (this.isPaused && this.resumeCountdown <= 0) {
+            this.resume();
+        } else {
+            this.pause();
+        }
+    }
+
+    // Stop the loop and the BGM where they are. Also cancels a running resume countdown.
+    private pause() {
+        if (this.isGameOver || this.replay || this.gameLoopId === null) return;
+
+        // The keyup for a held jump may never arrive once the window has lost focus
+        if (!this.isPaused) this.releaseJump();
+
+        this.isPaused = true;
+        this.resumeCountdown = 0;
+        cancelAnimationFrame(this.gameLoopId);
+        this.gameLoopId = null;
+        this.currentBgm?.pause();
+
+        document.getElementById('pause-screen')?.classList.remove('hidden');
+    }
+
+    private resume() {
+        if (!this.isPaused || this.resumeCountdown > 0) return;
 
-    private update(dt: number) {
-        this.totalPlayTime += dt;
+        document.getElementById('pause-screen')?.classList.add('hidden');
+        this.resumeCountdown = RESUME_COUNTDOWN;
+        this.countdownLastTime = performance.now();
+        this.gameLoopId = requestAnimationFrame((t) => this.countdownLoop(t));
+    }
+
+    // Shows the frozen frame with 3-2-1 on top, then hands over to the game loop
+    private countdownLoop(timestamp: number) {
+        this.resumeCountdown -= timestamp - this.countdownLastTime;
+        this.countdownLastTime = timestamp;
+
+        if (this.resumeCountdown <= 0) {
+            this.isPaused = false;
+            this.resumeCountdown = 0;
+            this.currentBgm?.play().catch(e => console.error("BGM Play failed:", e));
+
+            // Start timing from now so the paused time is never simulated
+            this.lastTime = timestamp;
+            this.loop(timestamp);
+            return;
+        }
+
+        this.draw(this.accumulator / FIXED_TIMESTEP);
+        this.drawCountdown();
+        this.gameLoopId = requestAnimationFrame((t) => this.countdownLoop(t));
+    }
+
+    private drawCountdown() {
+        const count = Math.ceil(this.resumeCountdown / 1000);
+        const progress = (this.resumeCountdown % 1000) / 1000; // 1 -> 0 within each number
+
+        this.ctx.save();
+        this.ctx.translate(this.offsetX, this.offsetY);
+        this.ctx.scale(this.scale, this.scale);
+
+        this.ctx.fillStyle = 'rgba(0, 0, 0, 0.3)';
+        this.ctx.fillRect(0, 0, LOGICAL_WIDTH, LOGICAL_HEIGHT);
 
-        // Calculate Level (1 to 8, increases every 35 seconds)
-        const newLevel = Math.min(8, Math.floor(this.totalPlayTime / 35000) + 1);
+        // Each number pops in big and shrinks
+        this.ctx.translate(LOGICAL_WIDTH / 2, LOGICAL_HEIGHT / 2);
+        this.ctx.scale(1 + progress * 0.5, 1 + progress * 0.5);
+        this.ctx.textAlign = 'center';
+        this.ctx.textBaseline = 'middle';
+        this.ctx.font = '900 160px "Comic Sans MS", sans-serif';
+        this.ctx.lineWidth = 12;
+        this.ctx.lineJoin = 'round';
+        this.ctx.strokeStyle = 'black';
+        this.ctx.fillStyle = '#fbbf24'; // Yellow
+        this.ctx.strokeText(count.toString(), 0, 0);
+        this.ctx.fillText(count.toString(), 0, 0);
 
-        if (newLevel > this.level) {
-            this.level = newLevel;
+        this.ctx.restore();
+    }
+
+    private handleSimulationEvent(event: SimulationEvent) {
+        if (event.type === 'levelUp') {
             // Trigger Level Up Effect
             this.levelUpEffect.active = true;
             this.levelUpEffect.timer = 3000;
@@ -515,31 +974,94 @@ export class Game {
 
             // Spawn Particles
             for (let i = 0; i < 30; i++) {
-                const angle = Math.random() * Math.PI * 2;
-                const speed = 2 + Math.random() * 5;
+                const angle = this.effectRandom.next() * Math.PI * 2;
+                const speed = 2 + this.effectRandom.next() * 5;
                 this.particles.push({
                     x: LOGICAL_WIDTH / 2,
                     y: LOGICAL_HEIGHT / 2,
                     vx: Math.cos(angle) * speed,
                     vy: Math.sin(angle) * speed,
-                    life: 1000 + Math.random() * 1500,
+                    life: 1000 + this.effectRandom.next() * 1500,
                     color: i % 2 === 0 ? '#fbbf24' : '#ffffff', // Yellow and White
-                    size: 4 + Math.random() * 6
+                    size: 4 + this.effectRandom.next() * 6
                 });
             }
-        }
-
-        // Calculate Interval (10s base, -1s per level)
-        // Level 1: 10s, Level 2: 9s, ..., Level 5: 6s
-        const speedIncreaseInterval = (10 - (this.level - 1)) * 1000;
+        } else if (event.type === 'jump') {
+            this.playJumpSound();
+        } else if (event.type === 'stomp') {
+            this.playJumpSound();
+
+            // Puff where the enemy was
+            for (let i = 0; i < 12; i++) {
+                const angle = Math.PI + this.effectRandom.next() * Math.PI; // Upwards
+                const speed = 2 + this.effectRandom.next() * 3;
+                this.particles.push({
+                    x: event.x,
+                    y: event.y,
+                    vx: Math.cos(angle) * speed,
+                    vy: Math.sin(angle) * speed,
+                    life: 400 + this.effectRandom.next() * 400,
+                    color: i % 2 === 0 ? '#ffffff' : '#e2e8f0', // White and Gray-200
+                    size: 3 + this.effectRandom.next() * 4
+                });
+            }
+        } else if (event.type === 'shield') {
+            if (!this.replay) {
+                this.itemGetSound.currentTime = 0;
+                this.itemGetSound.play().catch(() => { });
+            }
 
-        // Increase speed based on dynamic interval
-        this.timeSinceLastSpeedIncrease += dt;
-        if (this.timeSinceLastSpeedIncrease > speedIncreaseInterval) {
-            this.speedMultiplier += this.config.speedIncreaseRate;
-            this.timeSinceLastSpeedIncrease = 0;
+            // Ring of sparks where the thorn was
+            for (let i = 0; i < 16; i++) {
+                const angle = i / 16 * Math.PI * 2;
+                this.particles.push({
+                    x: event.x,
+                    y: event.y,
+                    vx: Math.cos(angle) * 4,
+                    vy: Math.sin(angle) * 4,
+                    life: 400 + this.effectRandom.next() * 300,
+                    color: i % 2 === 0 ? '#63b3ed' : '#ffffff', // Blue-400 and White
+                    size: 3 + this.effectRandom.next() * 3
+                });
+            }
+        } else if (event.type === 'blockBreak') {
+            // Chunks of the block tumbling out of where it was
+            const colors = event.blockType === 'breakable' ? ['#c05621', '#fbd38d'] : ['#d69e6b', '#8b5e34'];
+            for (let i = 0; i < 14; i++) {
+                this.particles.push({
+                    x: event.x + this.effectRandom.next() * event.width,
+                    y: event.y + this.effectRandom.next() * event.height,
+                    vx: (this.effectRandom.next() - 0.5) * 6,
+                    vy: event.blockType === 'breakable' ? -2 - this.effectRandom.next() * 5 : this.effectRandom.next() * 2,
+                    life: 600 + this.effectRandom.next() * 600,
+                    color: colors[i % 2],
+                    size: 4 + this.effectRandom.next() * 6,
+                    gravity: 0.5
+                });
+            }
+        } else if (event.type === 'spring') {
+            this.playJumpSound();
+        } else if (event.type === 'score') {
+            if (event.points > 0) {
+                const player = this.sim.player;
+                const label = event.source === 'nearMiss' ? 'CLOSE! ' : event.source === 'airChain' ? 'CHAIN! ' : '';
+                this.scorePopups.push({
+                    text: `${label}+${event.points}`,
+                    x: player.position.x + player.size.width / 2,
+                    y: player.position.y - player.size.height - 10 - this.scorePopups.length * 30, // Stacked when several land at once
+                    life: 800
+                });
+            }
+        } else if (event.type === 'item' || event.type === 'coin' || event.type === 'speedPad' || event.type === 'gravityFlip') {
+            if (!this.replay) {
+                this.itemGetSound.currentTime = 0;
+                this.itemGetSound.play().catch(() => { });
+            }
         }
+    }
 
+    // Purely visual state (not part of the simulation)
+    private updateEffects(dt: number) {
         // Update Level Up Effect
         if (this.levelUpEffect.active) {
             this.levelUpEffect.timer -= dt;
@@ -555,6 +1077,7 @@ export class Game {
         // Update Particles
         for (let i = this.particles.length - 1; i >= 0; i--) {
             const p = this.particles[i];
+            p.vy += (p.gravity ?? 0) * (dt / 16);
             p.x += p.vx * (dt / 16);
             p.y += p.vy * (dt / 16);
             p.life -= dt;
@@ -563,147 +1086,28 @@ export class Game {
             }
         }
 
-        this.stageManager.update(dt, this.speedMultiplier, this.scrollSpeed);
-        this.player.update(dt, this.speedMultiplier);
-
-        // Collision detection
-        const elements = this.stageManager.getElements();
-        const playerRect = this.player.getRect();
-
-        // Check for ground collision
-        let onGround = false;
-        for (const el of elements) {
-            if (el.type === 'platform') {
-                if (
-                    playerRect.x < el.x + el.width &&
-                    playerRect.x + playerRect.width > el.x &&
-                    playerRect.y + playerRect.height > el.y &&
-                    playerRect.y < el.y + el.height
-                ) {
-                    // Collision
-                    // Simple resolution: if falling and above, land
-                    // Increased tolerance to 20 to prevent falling through seams
-                    if (this.player.velocity.y >= 0 && playerRect.y + playerRect.height - (this.player.velocity.y * (dt / 16)) <= el.y + 20) {
-                        this.player.land(el.y);
-                        onGround = true;
-                    }
-                    // Side collision (death)
-                    // Only trigger if we are significantly below the top of the platform (not just skimming the edge)
-                    // Increased tolerance from 15 to 22 to fix "flat ground death" bug where small offsets caused death
-                    else if (playerRect.x + playerRect.width > el.x + 10 && playerRect.y + playerRect.height > el.y + 22) {
-                        // Check if it's a head collision (hitting bottom while jumping)
-                        // If moving up AND player top is close to platform bottom
-                        const isHeadCollision = this.player.velocity.y < 0 && playerRect.y > el.y + el.height - 30;
-
-                        if (isHeadCollision) {
-                            // Bonk! Stop upward movement and push out
-                            this.player.velocity.y = 0;
-                            this.player.position.y = el.y + el.height + this.player.size.height;
-                        } else {
-                            this.gameOver();
-                        }
-                    }
-                }
-            } else if (el.type === 'item') {
-                // Check collision with item
-                if (
-                    playerRect.x < el.x + el.width &&
-                    playerRect.x + playerRect.width > el.x &&
-                    playerRect.y + playerRect.height > el.y &&
-                    playerRect.y < el.y + el.height
-                ) {
-                    // Item collected
-                    if (el.subtype === 'onigiri' || el.subtype === 'icecream' || el.subtype === 'star') {
-                        this.collectedItems[el.subtype]++;
-                    }
-
-                    if (el.subtype === 'onigiri') {
-                        this.speedMultiplier = Math.max(0.5, this.speedMultiplier - 0.5);
-                    } else if (el.subtype === 'icecream') {
-                        this.score += 500;
-                    } else if (el.subtype === 'star') {
-                        this.player.addDoubleJump();
-                    }
-
-                    this.itemGetSound.currentTime = 0;
-                    this.itemGetSound.play().catch(() => { });
-
-                    // Remove item
-                    const index = this.stageManager.getElements().indexOf(el);
-                    if (index > -1) {
-                        this.stageManager.getElements().splice(index, 1);
-                    }
-                }
-            } else if (el.type === 'thorn') {
-                // Check collision with thorn
-                // Hitbox: 50% width, 50% height, bottom aligned
-                const hitWidth = el.width * 0.5;
-                const paddingX = (el.width - hitWidth) / 2;
-                const hitX = el.x + paddingX;
-
-                const hitHeight = el.height * 0.5;
-                const paddingY = el.height - hitHeight;
-                const hitY = el.y + paddingY;
-
-                if (
-                    playerRect.x < hitX + hitWidth &&
-                    playerRect.x + playerRect.width > hitX &&
-                    playerRect.y + playerRect.height > hitY &&
-                    playerRect.y < hitY + hitHeight
-                ) {
-                    this.gameOver();
-                }
-            }
-        }
-
-        if (!onGround) {
-            this.player.setGrounded(false);
-        }
-
-        // Score update (Cumulative based on distance chunks)
-        const currentTotalDist = this.stageManager.getTotalDistance();
-        // Check how many 100px chunks we've passed since last update
-        while (currentTotalDist - this.lastScoreDistance >= 100) {
-            this.lastScoreDistance += 100;
-
-            this.score += 3 + (this.level * this.speedMultiplier * 2);
-        }
-
-        // Apply any one-time offsets (legacy support for items if needed, though items add directly now?)
-        // Actually, we should just add scoreOffset directly to score when item is collected, 
-        // but since scoreOffset was a separate variable, we can just merge it.
-        // For now, let's keep score purely cumulative and add the offset at display/Game Over time or just merge it here.
-        // Easier: Modify item collection to add directly to this.score and remove scoreOffset usage?
-        // The original code: this.score = Math.floor(dist/100)*5 + this.scoreOffset;
-        // So offset was additive. We can just keep adding to this.score.
-
-        // Track Max Speed
-        if (this.speedMultiplier > this.maxSpeed) {
-            this.maxSpeed = this.speedMultiplier;
-        }
-
-        // Check fall off
-        // Game Over when player is no longer visible (top of player matches or exceeds bottom of screen)
-        if (this.player.position.y - this.player.size.height > LOGICAL_HEIGHT) {
-            this.gameOver();
+        for (const popup of this.scorePopups) {
+            popup.y -= dt / 16;
+            popup.life -= dt;
         }
+        this.scorePopups = this.scorePopups.filter(popup => popup.life > 0);
 
-        // Check Test Clear Condition
-        const urlParams = new URLSearchParams(window.location.search);
-        if (urlParams.get('mode') === 'test' && !this.isGameOver) {
-            // Check if player passed the stage
-            const testStageStr = localStorage.getItem('testStage');
-            if (testStageStr) {
-                const testStage = JSON.parse(testStageStr);
-                const finishDistance = 2400 + testStage.width;
-
-                if (this.stageManager.getTotalDistance() > finishDistance) {
-                    this.onTestClear();
-                }
+        if (this.achievementToasts.length > 0) {
+            this.toastTimer -= dt;
+            if (this.toastTimer <= 0) {
+                this.achievementToasts.shift();
+                this.toastTimer = 3000;
             }
         }
     }
 
+    // Queue toasts for newly unlocked achievements
+    private announceAchievements(unlocked: AchievementId[]) {
+        if (unlocked.length === 0) return;
+        if (this.achievementToasts.length === 0) this.toastTimer = 3000;
+        this.achievementToasts.push(...unlocked);
+    }
+
     private onTestClear() {
         this.isGameOver = true;
         cancelAnimationFrame(this.gameLoopId!);
@@ -717,19 +1121,25 @@ export class Game {
         const currentSpeed = parseFloat(localStorage.getItem('testSpeed') || '1.0');
         let nextSpeed = currentSpeed + 1.0;
 
+        // The page is left right away, so unlocks are announced in the alert instead of a toast
+        const unlocked = this.achievements.handleEvent({ type: 'testClear', speed: currentSpeed });
+        this.achievements.endRun();
+        const unlockedText = unlocked.map(id => `\n🏆 Achievement unlocked: ${ACHIEVEMENTS[id].name}`).join('');
+
+        // Test play goes up through the same speeds the solvability check does, to get a feel for
+        // each; publishing only depends on that check
         if (nextSpeed > 3.0) {
             // All cleared!
-            alert("TEST CLEARED! You can now publish this stage.");
-            localStorage.setItem('testCompleted', 'true');
+            alert("TEST PLAY CLEARED AT EVERY SPEED! Run the solvability check in the editor to publish." + unlockedText);
             window.location.href = '/stagemaker.html';
         } else {
-            alert(`SPEED ${currentSpeed.toFixed(1)} CLEARED! Next: ${nextSpeed.toFixed(1)}`);
+            alert(`SPEED ${currentSpeed.toFixed(1)} CLEARED! Next: ${nextSpeed.toFixed(1)}` + unlockedText);
             localStorage.setItem('testSpeed', nextSpeed.toFixed(1));
             window.location.reload();
         }
     }
 
-    private draw() {
+    private draw(alpha: number) {
         // Clear screen with black (for letterboxing)
         this.ctx.fillStyle = 'black';
         this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
@@ -754,8 +1164,14 @@ export class Game {
             this.ctx.fillRect(0, 0, LOGICAL_WIDTH, LOGICAL_HEIGHT);
         }
 
-        this.stageManager.draw(this.ctx);
-        this.player.draw(this.ctx);
+        this.sim.stageManager.draw(this.ctx, alpha);
+
+        // Ghost (drawn behind the player), shown at the same interpolated point in time
+        const renderTick = this.sim.tick - 2 + alpha;
+        const liveDistance = this.sim.stageManager.getInterpolatedDistance(alpha);
+        this.ghost?.draw(this.ctx, renderTick, liveDistance, this.sim.player.position.x);
+
+        this.sim.player.draw(this.ctx, alpha);
 
         // Draw HUD
         this.ctx.fillStyle = 'white';
@@ -765,22 +1181,80 @@ export class Game {
         this.ctx.lineJoin = 'round';
 
         // Score
-        const scoreText = `Score: ${Math.floor(this.score)}`;
+        const scoreText = `Score: ${this.sim.score}`;
         this.ctx.strokeText(scoreText, 20, 50);
         this.ctx.fillText(scoreText, 20, 50);
 
+        // Combo multiplier, next to the score while it's built up
+        const combo = this.sim.scoring.combo;
+        if (combo > 1) {
+            const comboText = `x${combo.toFixed(1)}`;
+            const comboX = 40 + this.ctx.measureText(scoreText).width;
+            this.ctx.save();
+            this.ctx.fillStyle = combo >= this.config.comboMax ? '#fc8181' : '#f6ad55'; // Red-400 when maxed, else Orange-400
+            this.ctx.strokeText(comboText, comboX, 50);
+            this.ctx.fillText(comboText, comboX, 50);
+            this.ctx.restore();
+        }
+
         // Speed & Level (Below Score)
-        const statsText = `Speed: ${this.speedMultiplier.toFixed(2)}x   Lv.${this.level}`;
+        const statsText = `Speed: ${this.sim.currentSpeed.toFixed(2)}x   Lv.${this.sim.level}   🪙 ${this.sim.coins}`;
         this.ctx.font = 'bold 24px "Comic Sans MS", "Chalkboard SE", sans-serif';
         this.ctx.strokeText(statsText, 20, 85);
         this.ctx.fillText(statsText, 20, 85);
 
         // Double Jump Count
-        if (this.player.doubleJumpCount > 0) {
+        if (this.sim.player.doubleJumpCount > 0) {
             this.ctx.fillStyle = '#f6e05e'; // Yellow-400
             this.ctx.font = 'bold 24px "Comic Sans MS", sans-serif';
-            this.ctx.strokeText(`Double Jumps: ${this.player.doubleJumpCount}`, 20, 115);
-            this.ctx.fillText(`Double Jumps: ${this.player.doubleJumpCount}`, 20, 115);
+            this.ctx.strokeText(`Double Jumps: ${this.sim.player.doubleJumpCount}`, 20, 115);
+            this.ctx.fillText(`Double Jumps: ${this.sim.player.doubleJumpCount}`, 20, 115);
+        }
+
+        // Power-up timers: icon and a bar for the time left
+        this.sim.effects.forEach((active, i) => {
+            const x = 20 + i * 130;
+            const y = 150;
+            this.ctx.font = '28px sans-serif';
+            this.ctx.fillText(ITEMS[active.item].icon, x, y);
+            this.ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+            this.ctx.fillRect(x + 40, y - 18, 80, 12);
+            this.ctx.fillStyle = active.remaining < 2000 ? '#fc8181' : '#68d391'; // Red-400 when running out, else Green-400
+            this.ctx.fillRect(x + 40, y - 18, 80 * active.remaining / active.duration, 12);
+            this.ctx.strokeStyle = 'black';
+            this.ctx.lineWidth = 2;
+            this.ctx.strokeRect(x + 40, y - 18, 80, 12);
+            this.ctx.fillStyle = 'white';
+        });
+
+        // Ghost Gap (positive = ahead of the ghost), in blocks
+        if (this.ghost) {
+            const gap = (liveDistance - this.ghost.getDistance(renderTick)) / 100;
+            const gapText = this.ghost.isFinished(renderTick) && gap > 0
+                ? `Ghost beaten! +${gap.toFixed(1)}`
+                : `Ghost: ${gap >= 0 ? '+' : ''}${gap.toFixed(1)}`;
+            this.ctx.save();
+            this.ctx.textAlign = 'right';
+            this.ctx.fillStyle = gap >= 0 ? '#68d391' : '#fc8181'; // Green-400 / Red-400
+            this.ctx.font = 'bold 24px "Comic Sans MS", sans-serif';
+            this.ctx.strokeText(gapText, LOGICAL_WIDTH - 20, 85);
+            this.ctx.fillText(gapText, LOGICAL_WIDTH - 20, 85);
+            this.ctx.restore();
+        }
+
+        // Replay Label
+        if (this.replay) {
+            this.ctx.save();
+            this.ctx.textAlign = 'right';
+            this.ctx.fillStyle = '#f87171'; // Red-400
+            this.ctx.font = 'bold 30px "Comic Sans MS", sans-serif';
+            this.ctx.strokeText('● REPLAY', LOGICAL_WIDTH - 20, 50);
+            this.ctx.fillText('● REPLAY', LOGICAL_WIDTH - 20, 50);
+            this.ctx.restore();
+        }
+
+        if (this.debug) {
+            this.drawDebugReadout();
         }
 
         // Particles
@@ -791,6 +1265,21 @@ export class Game {
             this.ctx.fill();
         }
 
+        // Score Popups
+        this.ctx.save();
+        this.ctx.textAlign = 'center';
+        this.ctx.font = 'bold 22px "Comic Sans MS", "Chalkboard SE", sans-serif';
+        this.ctx.lineWidth = 4;
+        this.ctx.lineJoin = 'round';
+        this.ctx.strokeStyle = 'black';
+        this.ctx.fillStyle = '#f6e05e'; // Yellow-400
+        for (const popup of this.scorePopups) {
+            this.ctx.globalAlpha = Math.min(1, popup.life / 300);
+            this.ctx.strokeText(popup.text, popup.x, popup.y);
+            this.ctx.fillText(popup.text, popup.x, popup.y);
+        }
+        this.ctx.restore();
+
         // Level Up Overlay
         if (this.levelUpEffect.active) {
             this.ctx.save();
@@ -805,7 +1294,7 @@ export class Game {
             this.ctx.font = '900 60px "Comic Sans MS", sans-serif';
             this.ctx.strokeStyle = 'black';
             this.ctx.fillStyle = 'white';
-            const lvText = `LV.${this.level}`;
+            const lvText = `LV.${this.sim.level}`;
             this.ctx.strokeText(lvText, LOGICAL_WIDTH / 2, startY);
             this.ctx.fillText(lvText, LOGICAL_WIDTH / 2, startY);
 
@@ -818,12 +1307,67 @@ export class Game {
             this.ctx.restore();
         }
 
+        // Achievement Toast (in the level-up style, near the top so the two can show together)
+        if (this.achievementToasts.length > 0) {
+            const achievement = ACHIEVEMENTS[this.achievementToasts[0]];
+            this.ctx.save();
+            this.ctx.globalAlpha = Math.min(1, this.toastTimer / 500); // Fade out at the end
+            this.ctx.textAlign = 'center';
+            this.ctx.lineWidth = 8;
+            this.ctx.lineJoin = 'round';
+            this.ctx.strokeStyle = 'black';
+
+            this.ctx.font = '900 36px "Comic Sans MS", sans-serif';
+            this.ctx.fillStyle = '#fbbf24'; // Yellow
+            const titleText = '🏆 ACHIEVEMENT UNLOCKED!';
+            this.ctx.strokeText(titleText, LOGICAL_WIDTH / 2, 200);
+            this.ctx.fillText(titleText, LOGICAL_WIDTH / 2, 200);
+
+            this.ctx.font = '900 48px "Comic Sans MS", sans-serif';
+            this.ctx.fillStyle = 'white';
+            const nameText = `${achievement.icon} ${achievement.name}`;
+            this.ctx.strokeText(nameText, LOGICAL_WIDTH / 2, 260);
+            this.ctx.fillText(nameText, LOGICAL_WIDTH / 2, 260);
+
+            this.ctx.restore();
+        }
+
+        this.ctx.restore();
+    }
+
+    // Bottom-left readout of the jump-feel timers and the frame-time budget (?debug)
+    private drawDebugReadout() {
+        const timers = this.sim.player.getJumpTimers();
+        const frameMs = this.frameCost.update + this.frameCost.draw;
+        const lines = [
+            `Frame: ${frameMs.toFixed(1)} / ${FIXED_TIMESTEP.toFixed(1)} ms (update ${this.frameCost.update.toFixed(1)}, draw ${this.frameCost.draw.toFixed(1)})`,
+            `Elements: ${this.sim.stageManager.getElementCount()}`,
+            `Coyote: ${timers.coyote.toFixed(0)} / ${this.config.coyoteTime} ms`,
+            `Buffer: ${timers.buffer.toFixed(0)} / ${this.config.jumpBufferTime} ms`,
+            `Hold:   ${timers.hold.toFixed(0)} / ${this.config.jumpHoldWindow} ms`,
+            `Grounded: ${this.sim.player.isGrounded ? 'yes' : 'no'}   vy: ${this.sim.player.velocity.y.toFixed(1)}`
+        ];
+
+        this.ctx.save();
+        this.ctx.font = 'bold 18px monospace';
+        this.ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+        this.ctx.fillRect(10, LOGICAL_HEIGHT - 20 - lines.length * 24, 520, lines.length * 24 + 10);
+        this.ctx.fillStyle = '#a7f3d0'; // Emerald-200
+        lines.forEach((line, i) => {
+            this.ctx.fillText(line, 20, LOGICAL_HEIGHT - 20 - (lines.length - 1 - i) * 24 - 6);
+        });
         this.ctx.restore();
     }
 
     private gameOver() {
         this.isGameOver = true;
+
+        // A replay just stops at the recorded death
+        if (this.replay) return;
+
         this.canReturnToTitle = false;
+        this.lastRecording = this.recorder.finish(this.sim.tick);
+        this.lastGhost = this.ghostRecorder.finish();
 
         if (this.gameLoopId) {
             cancelAnimationFrame(this.gameLoopId);
@@ -846,9 +1390,12 @@ export class Game {
             return;
         }
 
+        this.achievements.endRun();
+
         // Hide mobile controls
         const mobileControls = document.getElementById('mobile-controls');
         if (mobileControls) mobileControls.style.display = 'none';
+        document.getElementById('pause-btn')?.classList.add('hidden');
 
         // Prepare Score Screen
         const gameOverScreen = document.getElementById('game-over-screen');
@@ -856,11 +1403,8 @@ export class Game {
         const returnBtn = document.getElementById('return-title-btn');
 
         if (gameOverScreen && finalScoreEl) {
-            // Calculate Scores
-            const baseScore = Math.floor(this.score);
-            const stars = this.player.doubleJumpCount;
-            const starBonus = stars * 200;
-            const finalScore = baseScore + starBonus;
+            // Same rules as the HUD and headless runs, with the bonus for unused double jumps
+            const finalScore = this.sim.finalScore;
 
             // Random Message
             const randomMsg = MESSAGES[Math.floor(Math.random() * MESSAGES.length)];
@@ -870,38 +1414,64 @@ export class Game {
             // DOM Updates
             finalScoreEl.innerText = finalScore.toString();
 
-            const baseScoreEl = document.getElementById('base-score');
-            if (baseScoreEl) baseScoreEl.innerText = baseScore.toString();
+            const breakdownEl = document.getElementById('score-breakdown');
+            if (breakdownEl) {
+                breakdownEl.innerHTML = this.sim.scoring.breakdown(this.sim.player.doubleJumpCount).map(line => `
+                    <div class="flex justify-between items-center">
+                        <span class="text-sm font-bold text-gray-300">${line.label} <span class="text-gray-500">x${line.count}</span></span>
+                        <span class="text-lg font-mono text-green-400">+${line.points}</span>
+                    </div>
+                `).join('');
+            }
+
+            const seedEl = document.getElementById('result-seed');
+            if (seedEl) seedEl.innerText = this.random.seed.toString();
 
             const levelEl = document.getElementById('result-level');
-            if (levelEl) levelEl.innerText = this.level.toString();
+            if (levelEl) levelEl.innerText = this.sim.level.toString();
 
             const maxSpeedEl = document.getElementById('result-max-speed');
-            if (maxSpeedEl) maxSpeedEl.innerText = this.maxSpeed.toFixed(2) + 'x';
+            if (maxSpeedEl) maxSpeedEl.innerText = this.sim.maxSpeed.toFixed(2) + 'x';
 
             // Detailed Items
-            const onigiriEl = document.getElementById('count-onigiri');
-            if (onigiriEl) onigiriEl.innerText = this.collectedItems.onigiri.toString();
-
-            const icecreamEl = document.getElementById('count-icecream');
-            if (icecreamEl) icecreamEl.innerText = this.collectedItems.icecream.toString();
-
-            const starEl = document.getElementById('count-star');
-            if (starEl) starEl.innerText = this.collectedItems.star.toString();
-
-            const starCountEl = document.getElementById('star-count');
-            if (starCountEl) starCountEl.innerText = stars.toString();
+            const itemsEl = document.getElementById('result-items');
+            if (itemsEl) {
+                itemsEl.innerHTML = ITEM_TYPES.map(type => {
+                    const item = ITEMS[type];
+                    const picture = item.sprite
+                        ? `<img src="${item.sprite}" class="w-8 h-8 mb-1" />`
+                        : `<span class="w-8 h-8 mb-1 text-2xl leading-8 text-center">${item.icon}</span>`;
+                    return `
+                        <div class="flex flex-col items-center" title="${item.name}">
+                            ${picture}
+                            <span class="font-mono text-lg">${this.sim.collectedItems[type]}</span>
+                        </div>
+                    `;
+                }).join('');
+            }
 
-            const starBonusEl = document.getElementById('star-bonus');
-            if (starBonusEl) starBonusEl.innerText = '+' + starBonus.toString();
+            // Bank this run's coins
+            this.wallet.add(this.sim.coins);
+            const coinsEl = document.getElementById('result-coins');
+            if (coinsEl) coinsEl.innerText = '+' + this.sim.coins.toString();
+            this.updateWalletDisplay();
 
             gameOverScreen.classList.remove('hidden');
 
             // Hide return button initially
             if (returnBtn) returnBtn.classList.add('hidden');
 
-            // Override this.score with final score so rankings use it or submission uses it
-            // Actually, best to keep this.score as base and just submit final
+            this.savePersonalBest(finalScore);
+            this.profile.recordRun({
+                date: Date.now(),
+                score: finalScore,
+                level: this.sim.level,
+                maxSpeed: this.sim.maxSpeed,
+                items: { ...this.sim.collectedItems },
+                coins: this.sim.coins,
+                duration: this.sim.tick * FIXED_TIMESTEP,
+                deathCause: this.sim.deathCause
+            });
             this.submitScore(finalScore);
         }
 
@@ -918,9 +1488,8 @@ export class Game {
     }
 
     private submitScore(score: number) {
-        // Get player name from input (entered at start)
-        const nameInput = document.getElementById('player-name-input') as HTMLInputElement;
-        const playerName = nameInput?.value || "Player";
+        // Name saved in the profile when the run started
+        const playerName = this.profile.name;
 
         fetch(`${API_BASE_URL}/scores`, {
             method: 'POST',
@@ -931,9 +1500,11 @@ export class Game {
             body: JSON.stringify({
                 score: score,
                 name: playerName,
-                max_speed: this.maxSpeed,
-                level: this.level,
-                items: this.collectedItems
+                max_speed: this.sim.maxSpeed,
+                level: this.sim.level,
+                items: this.sim.collectedItems,
+                replay: this.lastRecording,
+                ghost: this.lastGhost
             })
         }).catch(err => console.error("Failed to submit score:", err));
     }
@@ -954,6 +1525,8 @@ export class Game {
             returnBtn.classList.remove('animate-bounce');
         }
 
+        document.getElementById('pause-btn')?.classList.add('hidden');
+
         if (this.gameLoopId) {
             cancelAnimationFrame(this.gameLoopId);
             this.gameLoopId = null;
@@ -978,7 +1551,7 @@ export class Game {
 
                 const scoreDisplay = document.createElement('div');
                 scoreDisplay.className = "text-4xl font-bold text-white mb-8 drop-shadow-[2px_2px_0_#000]";
-                scoreDisplay.innerText = `SCORE: ${score !== undefined ? score : Math.floor(this.score)}`;
+                scoreDisplay.innerText = `SCORE: ${score !== undefined ? score : this.sim.finalScore}`;
                 rankingsList.appendChild(scoreDisplay);
             } else {
                 rankingsList.innerHTML = '<h2 class="text-6xl font-black text-yellow-400 mb-8 drop-shadow-[4px_4px_0_#000] transform -rotate-3">RANKING</h2>';
@@ -988,12 +1561,12 @@ export class Game {
                 const res = await fetch(`${API_BASE_URL}/scores`, {
                     headers: { 'ngrok-skip-browser-warning': 'true' }
                 });
-                const scores = await res.json();
+                const scores: ScoreEntry[] = await res.json();
 
                 const listContainer = document.createElement('div');
                 listContainer.className = "w-full max-w-2xl bg-white/90 border-4 border-black rounded-xl p-6 shadow-[8px_8px_0_#000] transform rotate-1";
 
-                listContainer.innerHTML = scores.map((s: any, i: number) => `
+                listContainer.innerHTML = scores.map((s, i) => `
                     <div class="flex justify-between items-center mb-4 border-b-2 border-dashed border-gray-400 pb-2 last:border-0">
                         <div class="flex items-center gap-4">
                             <span class="text-3xl font-black ${i === 0 ? 'text-yellow-500' : i === 1 ? 'text-gray-500' : i === 2 ? 'text-orange-600' : 'text-black'} drop-shadow-sm">#${i + 1}</span> 
@@ -1003,11 +1576,13 @@ export class Game {
                             </div>
                         </div>
                         <div class="flex flex-col items-end">
-                            <span class="text-3xl font-black text-pink-500 drop-shadow-sm">${s.score}</span>
+                            <div class="flex items-center gap-2">
+                                ${s.has_ghost ? `<button class="race-ghost-btn px-2 py-1 bg-purple-500 hover:bg-purple-600 border-2 border-black rounded text-xs font-black text-white" data-index="${i}">👻 RACE</button>` : ''}
+                                ${s.has_replay ? `<button class="watch-replay-btn px-2 py-1 bg-blue-500 hover:bg-blue-600 border-2 border-black rounded text-xs font-black text-white" data-score-id="${s.id}">▶ REPLAY</button>` : ''}
+                                <span class="text-3xl font-black text-pink-500 drop-shadow-sm">${s.score}</span>
+                            </div>
                             <div class="flex gap-1 text-xs text-gray-600">
-                                <span>🍙${s.items?.onigiri || 0}</span>
-                                <span>🍦${s.items?.icecream || 0}</span>
-                                <span>⭐${s.items?.star || 0}</span>
+                                ${ITEM_TYPES.map(type => `<span>${ITEMS[type].icon}${s.items?.[type] || 0}</span>`).join('')}
                             </div>
                         </div>
                     </div>
@@ -1015,14 +1590,246 @@ export class Game {
 
                 rankingsList.appendChild(listContainer);
 
+                listContainer.querySelectorAll<HTMLElement>('.watch-replay-btn').forEach(btn => {
+                    btn.addEventListener('click', () => this.watchScoreReplay(btn.dataset.scoreId!));
+                });
+                listContainer.querySelectorAll<HTMLElement>('.race-ghost-btn').forEach(btn => {
+                    const entry = scores[parseInt(btn.dataset.index!)];
+                    btn.addEventListener('click', () => this.chooseScoreGhost(entry));
+                });
+
             } catch (err) {
                 rankingsList.innerHTML += '<div class="text-2xl text-red-500 font-bold mt-4">Failed to load rankings.</div>';
             }
         }
     }
 
+    // Download a ranking entry's ghost and race it in the next run
+    private async chooseScoreGhost(entry: ScoreEntry) {
+        if (!entry.has_ghost) return;
+        try {
+            const res = await fetch(`${API_BASE_URL}/scores/${encodeURIComponent(entry.id)}/ghost`, {
+                headers: { 'ngrok-skip-browser-warning': 'true' }
+            });
+            if (!res.ok) throw new Error('Failed to fetch ghost');
+            const data: GhostData = await res.json();
+
+            this.ghostChoice = { label: entry.name, data };
+            this.updateGhostButton();
+            document.getElementById('rankings-screen')?.classList.add('hidden');
+        } catch (err) {
+            console.error("Failed to load ghost:", err);
+            alert("Failed to load ghost.");
+        }
+    }
+
+    private loadPersonalBest(): { score: number, ghost: GhostData } | null {
+        const saved = localStorage.getItem('personalBestGhost');
+        if (!saved) return null;
+        try {
+            return JSON.parse(saved);
+        } catch (e) {
+            console.error("Failed to load personal best", e);
+            return null;
+        }
+    }
+
+    private savePersonalBest(score: number) {
+        if (!this.lastGhost) return;
+        const best = this.loadPersonalBest();
+        if (best && best.score >= score) return;
+        localStorage.setItem('personalBestGhost', JSON.stringify({ score, ghost: this.lastGhost }));
+    }
+
+    private updateWalletDisplay() {
+        const total = this.wallet.getTotal().toString();
+        const titleEl = document.getElementById('wallet-total');
+        if (titleEl) titleEl.innerText = total;
+        const resultEl = document.getElementById('result-wallet');
+        if (resultEl) resultEl.innerText = total;
+    }
+
+    private updateGhostButton() {
+        const ghostBtn = document.getElementById('ghost-toggle-btn');
+        if (ghostBtn) ghostBtn.innerText = `👻 GHOST: ${this.ghostChoice ? this.ghostChoice.label : 'OFF'}`;
+    }
+
+    private async watchScoreReplay(scoreId: string) {
+        try {
+            const res = await fetch(`${API_BASE_URL}/scores/${encodeURIComponent(scoreId)}/replay`, {
+                headers: { 'ngrok-skip-browser-warning': 'true' }
+            });
+            if (!res.ok) throw new Error('Failed to fetch replay');
+            const recording: RunRecording = await res.json();
+
+            const gameOverScreen = document.getElementById('game-over-screen');
+            const fromGameOver = gameOverScreen !== null && !gameOverScreen.classList.contains('hidden');
+            await this.startReplay(recording, fromGameOver ? 'gameover' : 'title');
+        } catch (err) {
+            console.error("Failed to load replay:", err);
+            alert("Failed to load replay.");
+        }
+    }
+
+    private async startReplay(recording: RunRecording, returnScreen: 'title' | 'gameover') {
+        // The same inputs would play out differently under other rules
+        if (recording.version !== RECORDING_VERSION) {
+            alert("This replay was recorded on a different version of the game and can't be played back.");
+            return;
+        }
+
+        // Resolve every chunk up front so playback never waits on the network
+        let chunks: Array<{ tick: number, chunk: ChunkDef }>;
+        try {
+            chunks = await this.sim.stageManager.resolveChunks(recording.chunks);
+        } catch (err) {
+            console.error("Failed to load replay stages:", err);
+            alert("Failed to load replay stages.");
+            return;
+        }
+
+        if (this.gameLoopId) {
+            cancelAnimationFrame(this.gameLoopId);
+        }
+        if (this.currentBgm) {
+            this.currentBgm.pause();
+            this.currentBgm = null;
+        }
+
+        this.ghost = null;
+        this.replay = {
+            recording,
+            chunks,
+            inputIndex: 0,
+            playing: true,
+            speed: 1,
+            accumulator: 0,
+            lastTime: performance.now(),
+            returnScreen
+        };
+        this.restartReplaySimulation();
+
+        // Swap screens for the replay controls
+        document.getElementById('start-screen')!.style.display = 'none';
+        document.getElementById('game-over-screen')?.classList.add('hidden');
+        document.getElementById('rankings-screen')?.classList.add('hidden');
+        const mobileControls = document.getElementById('mobile-controls');
+        if (mobileControls) mobileControls.style.display = 'none';
+        document.getElementById('pause-btn')?.classList.add('hidden');
+
+        document.getElementById('replay-controls')?.classList.remove('hidden');
+        const scrub = document.getElementById('replay-scrub') as HTMLInputElement | null;
+        if (scrub) scrub.max = recording.ticks.toString();
+        const speedSelect = document.getElementById('replay-speed') as HTMLSelectElement | null;
+        if (speedSelect) speedSelect.value = '1';
+
+        this.gameLoopId = requestAnimationFrame((t) => this.replayLoop(t));
+    }
+
+    private restartReplaySimulation() {
+        if (!this.replay) return;
+        this.resetSimulation(this.replay.recording.seed);
+        this.sim.stageManager.setReplayChunks(this.replay.chunks);
+        this.replay.inputIndex = 0;
+        this.replay.accumulator = 0;
+    }
+
+    private replayLoop(timestamp: number) {
+        const replay = this.replay;
+        if (!replay) return;
+
+        const frameTime = Math.min(timestamp - replay.lastTime, FIXED_TIMESTEP * MAX_TICKS_PER_FRAME);
+        replay.lastTime = timestamp;
+
+        if (replay.playing) {
+            replay.accumulator += frameTime * replay.speed;
+            while (replay.accumulator >= FIXED_TIMESTEP) {
+                if (this.isGameOver || this.sim.tick >= replay.recording.ticks) {
+                    // Reached the end of the run
+                    replay.playing = false;
+                    replay.accumulator = 0;
+                    break;
+                }
+                this.step();
+                replay.accumulator -= FIXED_TIMESTEP;
+            }
+        }
+
+        this.updateReplayControls();
+        this.draw(replay.accumulator / FIXED_TIMESTEP);
+
+        this.gameLoopId = requestAnimationFrame((t) => this.replayLoop(t));
+    }
+
+    private toggleReplayPlaying() {
+        if (!this.replay) return;
+
+        // Playing from the end starts over
+        if (!this.replay.playing && (this.isGameOver || this.sim.tick >= this.replay.recording.ticks)) {
+            this.restartReplaySimulation();
+        }
+        this.replay.playing = !this.replay.playing;
+        this.replay.accumulator = 0;
+    }
+
+    // Jump to a tick by re-simulating from the start (the simulation only runs forwards)
+    private seekReplay(targetTick: number) {
+        if (!this.replay) return;
+
+        if (targetTick < this.sim.tick) {
+            this.restartReplaySimulation();
+        }
+        while (this.sim.tick < targetTick && !this.isGameOver) {
+            this.step();
+        }
+        this.replay.accumulator = 0;
+    }
+
+    private updateReplayControls() {
+        if (!this.replay) return;
+
+        const formatTime = (ticks: number) => {
+            const seconds = Math.floor(ticks * FIXED_TIMESTEP / 1000);
+            return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+        };
+
+        const scrub = document.getElementById('replay-scrub') as HTMLInputElement | null;
+        if (scrub && document.activeElement !== scrub) scrub.value = this.sim.tick.toString();
+
+        const timeEl = document.getElementById('replay-time');
+        if (timeEl) timeEl.innerText = `${formatTime(this.sim.tick)} / ${formatTime(this.replay.recording.ticks)}`;
+
+        const playBtn = document.getElementById('replay-play-btn');
+        if (playBtn) playBtn.innerText = this.replay.playing ? '❚❚' : '▶';
+    }
+
+    private exitReplay() {
+        if (!this.replay) return;
+        const returnScreen = this.replay.returnScreen;
+
+        if (this.gameLoopId) {
+            cancelAnimationFrame(this.gameLoopId);
+            this.gameLoopId = null;
+        }
+        this.replay = null;
+        document.getElementById('replay-controls')?.classList.add('hidden');
+
+        if (returnScreen === 'gameover') {
+            this.isGameOver = true;
+            document.getElementById('game-over-screen')?.classList.remove('hidden');
+        } else {
+            this.returnToTitle();
+        }
+    }
+
     // Helper to restore rankings view if closed
     public displayRankings() {
         this.showRankings();
     }
 }
+
+// 83500 ms -> "1:23"
+function formatDuration(ms: number): string {
+    const seconds = Math.floor(ms / 1000);
+    return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+}
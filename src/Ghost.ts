@@ -0,0 +1,109 @@
+import { Player } from './Player';
+import type { GameConfig, GhostData } from './types';
+
+export const GHOST_VERSION = 1;
+const SAMPLE_INTERVAL = 3; // Ticks between samples (20 per second at 60 ticks)
+const GHOST_ALPHA = 0.4;
+
+// Samples the live player during a run into a GhostData
+export class GhostRecorder {
+    private data: GhostData = { version: GHOST_VERSION, seed: 0, interval: SAMPLE_INTERVAL, frames: [] };
+
+    public start(seed: number) {
+        this.data = { version: GHOST_VERSION, seed, interval: SAMPLE_INTERVAL, frames: [] };
+    }
+
+    // Call once per tick with the index of the tick just simulated
+    public sample(tick: number, distance: number, player: Player) {
+        if (tick % this.data.interval !== 0) return;
+        this.data.frames.push([
+            Math.round(distance * 10) / 10,
+            Math.round(player.position.y * 10) / 10,
+            (player.isGrounded ? 1 : 0) | (player.gravityDir === -1 ? 2 : 0)
+        ]);
+    }
+
+    public finish(): GhostData {
+        return this.data;
+    }
+}
+
+// Plays back a GhostData next to the live player, drawn with the player's own sprites
+export class GhostRunner {
+    public readonly label: string;
+    private readonly data: GhostData;
+    private readonly player: Player;
+
+    constructor(config: GameConfig, data: GhostData, label: string) {
+        this.data = data;
+        this.label = label;
+        this.player = new Player(config, 0, 0);
+    }
+
+    public get seed(): number {
+        return this.data.seed;
+    }
+
+    // Recorded state at a (fractional) tick index, null once the ghost's run has ended
+    private sampleAt(tick: number): { distance: number, y: number, grounded: boolean, flipped: boolean } | null {
+        const frames = this.data.frames;
+        const index = Math.max(0, tick / this.data.interval);
+        const i0 = Math.floor(index);
+        if (frames.length === 0 || i0 >= frames.length) return null;
+
+        const a = frames[i0];
+        const b = frames[Math.min(i0 + 1, frames.length - 1)];
+        const t = index - i0;
+        return {
+            distance: a[0] + (b[0] - a[0]) * t,
+            y: a[1] + (b[1] - a[1]) * t,
+            grounded: (a[2] & 1) !== 0,
+            flipped: (a[2] & 2) !== 0
+        };
+    }
+
+    // Distance the ghost had covered at this tick (its final distance once it has died)
+    public getDistance(tick: number): number {
+        const frames = this.data.frames;
+        if (frames.length === 0) return 0;
+        return this.sampleAt(tick)?.distance ?? frames[frames.length - 1][0];
+    }
+
+    public isFinished(tick: number): boolean {
+        return this.sampleAt(tick) === null;
+    }
+
+    public update(dt: number, speedMultiplier: number) {
+        this.player.animate(dt, speedMultiplier);
+    }
+
+    // playerX: the live player's screen x, liveDistance: the live run's (interpolated) distance
+    public draw(ctx: CanvasRenderingContext2D, tick: number, liveDistance: number, playerX: number) {
+        const state = this.sampleAt(tick);
+        if (!state) return;
+
+        // Everyone runs at the same screen x, so the ghost is offset by how far ahead it is
+        const position = { x: playerX + (state.distance - liveDistance), y: state.y };
+        this.player.position = position;
+        this.player.previousPosition = { ...position };
+        this.player.isGrounded = state.grounded;
+        this.player.gravityDir = state.flipped ? -1 : 1;
+
+        ctx.save();
+        ctx.globalAlpha = GHOST_ALPHA;
+        this.player.draw(ctx);
+
+        // Name tag
+        ctx.fillStyle = 'white';
+        ctx.strokeStyle = 'black';
+        ctx.lineWidth = 4;
+        ctx.lineJoin = 'round';
+        ctx.textAlign = 'center';
+        ctx.font = 'bold 18px "Comic Sans MS", sans-serif';
+        const tagX = position.x + this.player.size.width / 2;
+        const tagY = position.y - this.player.size.height - 10;
+        ctx.strokeText(this.label, tagX, tagY);
+        ctx.fillText(this.label, tagX, tagY);
+        ctx.restore();
+    }
+}
@@ -0,0 +1,206 @@
+// Turns keyboard, touch, mouse and gamepad input into game actions, so Game never
+// has to know which physical button was pressed
+export type InputAction = 'jumpPress' | 'jumpRelease' | 'pause' | 'confirm';
+export type BindableAction = 'jump' | 'pause' | 'confirm';
+export type InputSource = 'keyboard' | 'gamepad' | 'touch'; // touch includes clicking the on-screen jump button
+export type KeyBindings = Record<BindableAction, string[]>; // KeyboardEvent.code values
+
+const BINDINGS_STORAGE_KEY = 'keyBindings';
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+    jump: ['Space'],
+    pause: ['Escape', 'KeyP'],
+    confirm: ['Enter']
+};
+
+// Standard gamepad layout: 0 = A / Cross, 1 = B / Circle, 2 = X / Square, 9 = Start / Options.
+// Each button has one action, so a press never does two things at once.
+const GAMEPAD_BINDINGS: Record<BindableAction, number[]> = {
+    jump: [0, 1],
+    pause: [9],
+    confirm: [2]
+};
+
+export const ACTION_LABELS: Record<BindableAction, string> = {
+    jump: 'Jump',
+    pause: 'Pause',
+    confirm: 'Confirm'
+};
+
+// Readable name for a KeyboardEvent.code, e.g. 'KeyP' -> 'P'
+export function keyLabel(code: string): string {
+    if (code.startsWith('Key')) return code.slice(3);
+    if (code.startsWith('Digit')) return code.slice(5);
+    if (code.startsWith('Arrow')) return code.slice(5) + ' Arrow';
+    if (code === 'Escape') return 'Esc';
+    return code;
+}
+
+export class InputManager {
+    public onAction: ((action: InputAction, source: InputSource) => void) | null = null;
+
+    private bindings: KeyBindings;
+    private heldKeys = new Set<string>();
+    private capture: ((code: string) => void) | null = null; // Waiting for a key to rebind
+
+    private gamepadPollId: number | null = null;
+    private gamepadPressed = new Map<string, boolean>(); // `${pad}:${action}` -> any of its buttons pressed last poll
+
+    constructor() {
+        this.bindings = this.loadBindings();
+
+        window.addEventListener('keydown', (e) => this.handleKey(e, true));
+        window.addEventListener('keyup', (e) => this.handleKey(e, false));
+        window.addEventListener('blur', () => this.heldKeys.clear()); // Their keyups won't arrive
+
+        // Only poll while a controller is plugged in
+        window.addEventListener('gamepadconnected', () => this.startGamepadPolling());
+        window.addEventListener('gamepaddisconnected', () => {
+            if (navigator.getGamepads().every(pad => !pad)) this.stopGamepadPolling();
+        });
+    }
+
+    // Tap anywhere on the element to jump (touch only, e.g. the canvas)
+    public addTouchTarget(el: HTMLElement) {
+        el.addEventListener('touchstart', (e) => {
+            e.preventDefault(); // Prevent scrolling
+            this.emit('jumpPress', 'touch');
+        }, { passive: false });
+        el.addEventListener('touchend', () => this.emit('jumpRelease', 'touch'));
+    }
+
+    // On-screen jump button, also clickable with a mouse for testing on desktop
+    public addJumpButton(el: HTMLElement) {
+        this.addTouchTarget(el);
+        el.addEventListener('mousedown', (e) => {
+            e.preventDefault();
+            this.emit('jumpPress', 'touch');
+        });
+        el.addEventListener('mouseup', () => this.emit('jumpRelease', 'touch'));
+    }
+
+    public getBindings(): KeyBindings {
+        return this.bindings;
+    }
+
+    // Send the next key pressed to the callback instead of the game (for the rebinding screen)
+    public captureNextKey(callback: (code: string) => void) {
+        this.capture = callback;
+    }
+
+    // Make a key the only one for an action, taking it away from any other action
+    public rebind(action: BindableAction, code: string) {
+        for (const other of Object.keys(this.bindings) as BindableAction[]) {
+            this.bindings[other] = this.bindings[other].filter(c => c !== code);
+        }
+        this.bindings[action] = [code];
+        this.saveBindings();
+    }
+
+    public resetBindings() {
+        this.bindings = structuredClone(DEFAULT_KEY_BINDINGS);
+        localStorage.removeItem(BINDINGS_STORAGE_KEY);
+    }
+
+    private emit(action: InputAction, source: InputSource) {
+        this.onAction?.(action, source);
+    }
+
+    private actionForKey(code: string): BindableAction | null {
+        for (const action of Object.keys(this.bindings) as BindableAction[]) {
+            if (this.bindings[action].includes(code)) return action;
+        }
+        return null;
+    }
+
+    // Whether any key bound to the action is down, so two keys for one action act as one
+    private isKeyHeld(action: BindableAction): boolean {
+        return [...this.heldKeys].some(code => this.actionForKey(code) === action);
+    }
+
+    private handleKey(e: KeyboardEvent, down: boolean) {
+        if (down && this.capture) {
+            e.preventDefault();
+            const capture = this.capture;
+            this.capture = null;
+            capture(e.code);
+            return;
+        }
+
+        // Let text fields (e.g. the name input) have their keys
+        const target = e.target as HTMLElement | null;
+        if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT')) return;
+
+        const action = this.actionForKey(e.code);
+        if (!action) return;
+        e.preventDefault(); // e.g. Space scrolling the page
+
+        if (down) {
+            if (e.repeat || this.heldKeys.has(e.code)) return;
+            const wasHeld = this.isKeyHeld(action);
+            this.heldKeys.add(e.code);
+            if (!wasHeld) this.emit(action === 'jump' ? 'jumpPress' : action, 'keyboard');
+        } else {
+            this.heldKeys.delete(e.code);
+            if (action === 'jump' && !this.isKeyHeld('jump')) this.emit('jumpRelease', 'keyboard');
+        }
+    }
+
+    private startGamepadPolling() {
+        if (this.gamepadPollId !== null) return;
+        const poll = () => {
+            this.pollGamepads();
+            this.gamepadPollId = requestAnimationFrame(poll);
+        };
+        this.gamepadPollId = requestAnimationFrame(poll);
+    }
+
+    private stopGamepadPolling() {
+        if (this.gamepadPollId !== null) {
+            cancelAnimationFrame(this.gamepadPollId);
+            this.gamepadPollId = null;
+        }
+        this.gamepadPressed.clear();
+    }
+
+    // The Gamepad API has no button events, so compare against the last poll.
+    // An action is held while any of its buttons is, so A and B together make one jump.
+    private pollGamepads() {
+        for (const pad of navigator.getGamepads()) {
+            if (!pad) continue;
+
+            for (const action of Object.keys(GAMEPAD_BINDINGS) as BindableAction[]) {
+                const pressed = GAMEPAD_BINDINGS[action].some(index => pad.buttons[index]?.pressed ?? false);
+                const key = `${pad.index}:${action}`;
+                const wasPressed = this.gamepadPressed.get(key) ?? false;
+                this.gamepadPressed.set(key, pressed);
+
+                if (pressed && !wasPressed) {
+                    this.emit(action === 'jump' ? 'jumpPress' : action, 'gamepad');
+                } else if (!pressed && wasPressed && action === 'jump') {
+                    this.emit('jumpRelease', 'gamepad');
+                }
+            }
+        }
+    }
+
+    private loadBindings(): KeyBindings {
+        const bindings = structuredClone(DEFAULT_KEY_BINDINGS);
+        try {
+            const saved = localStorage.getItem(BINDINGS_STORAGE_KEY);
+            if (saved) {
+                const parsed = JSON.parse(saved) as Partial<KeyBindings>;
+                for (const action of Object.keys(bindings) as BindableAction[]) {
+                    if (Array.isArray(parsed[action])) bindings[action] = parsed[action]!;
+                }
+            }
+        } catch (e) {
+            console.error("Failed to load key bindings", e);
+        }
+        return bindings;
+    }
+
+    private saveBindings() {
+        localStorage.setItem(BINDINGS_STORAGE_KEY, JSON.stringify(this.bindings));
+    }
+}
@@ -1,38 +1,47 @@
 import type { GameConfig, Rect, Vector2 } from './types';
+import { getImage } from './assets';
 
 export class Player {
     public position: Vector2;
+    public previousPosition: Vector2; // Position at the start of the last tick, for render interpolation
     public velocity: Vector2;
     public size: Rect;
     public isGrounded: boolean = false;
 
     private config: GameConfig;
-    private images: { run1: HTMLImageElement, run2: HTMLImageElement, stop: HTMLImageElement };
     private currentFrame: number = 0;
     private frameTimer: number = 0;
     private animationSpeed: number = 0.1; // Switch every 100ms
+    private jumpHoldTimer: number = 0; // ms left in which releasing jump cuts it short
+    private coyoteTimer: number = 0; // ms left in which a ground jump works after leaving the ground
+    private jumpBufferTimer: number = 0; // ms left in which an early press still jumps on landing
+    private jumpHeld: boolean = false; // Jump is held down (a buffered jump fires as a short hop if not)
 
     public doubleJumpCount: number = 0;
+    public gravityDir: 1 | -1 = 1; // -1 while gravity is flipped: falls upwards and stands on ceilings
 
     constructor(config: GameConfig, startX: number, startY: number) {
         this.config = config;
         this.position = { x: startX, y: startY };
+        this.previousPosition = { x: startX, y: startY };
         this.velocity = { x: 0, y: 0 };
         this.size = { x: 0, y: 0, width: 60, height: 80 }; // Adjusted size for sprites
-
-        this.images = {
-            run1: new Image(),
-            run2: new Image(),
-            stop: new Image()
-        };
-        this.images.run1.src = 'assets/chara_run_1.png';
-        this.images.run2.src = 'assets/chara_run_2.png';
-        this.images.stop.src = 'assets/chara_stop.png';
     }
 
     public update(dt: number, speedMultiplier: number) {
+        this.previousPosition = { ...this.position };
+        this.jumpHoldTimer = Math.max(0, this.jumpHoldTimer - dt);
+        this.jumpBufferTimer = Math.max(0, this.jumpBufferTimer - dt);
+
+        // Coyote time: the ground jump stays available for a moment after running off a ledge
+        if (this.isGrounded) {
+            this.coyoteTimer = this.config.coyoteTime;
+        } else {
+            this.coyoteTimer = Math.max(0, this.coyoteTimer - dt);
+        }
+
         // Apply gravity
-        this.velocity.y += this.config.gravity * (dt / 16);
+        this.velocity.y += this.config.gravity * this.gravityDir * (dt / 16);
 
         // Apply velocity
         this.position.y += this.velocity.y * (dt / 16);
@@ -42,7 +51,11 @@ export class Player {
             // Let it fall, Game over will trigger
         }
 
-        // Update animation
+        this.animate(dt, speedMultiplier);
+    }
+
+    // Advance the run cycle (also used on its own by ghosts, which don't simulate physics)
+    public animate(dt: number, speedMultiplier: number) {
         this.frameTimer += dt / 1000;
         if (this.frameTimer > this.animationSpeed / Math.max(1, speedMultiplier)) {
             this.frameTimer = 0;
@@ -50,31 +63,111 @@ export class Player {
         }
     }
 
+    public canJump(): boolean {
+        return this.isGrounded || this.coyoteTimer > 0 || this.doubleJumpCount > 0;
+    }
+
     public jump(): boolean {
-        if (this.isGrounded) {
-            this.velocity.y = this.config.jumpForce;
-            this.isGrounded = false;
+        this.jumpHeld = true;
+
+        // A late press off a ledge is still a ground jump, so it doesn't spend a star
+        if (this.isGrounded || this.coyoteTimer > 0) {
+            this.launch();
             return true;
         } else if (this.doubleJumpCount > 0) {
-            this.velocity.y = this.config.jumpForce;
             this.doubleJumpCount--;
+            this.launch();
             // Optional: Visual effect for double jump
             return true;
         }
+
+        // Too early: keep the press and jump on landing
+        this.jumpBufferTimer = this.config.jumpBufferTime;
         return false;
     }
 
+    private launch() {
+        this.velocity.y = this.config.jumpForce * this.gravityDir;
+        this.isGrounded = false;
+        this.coyoteTimer = 0;
+        this.jumpBufferTimer = 0;
+        this.jumpHoldTimer = this.config.jumpHoldWindow;
+    }
+
+    // Call once grounded after collisions: fires a press made just before landing
+    public tryBufferedJump(): boolean {
+        if (this.jumpBufferTimer <= 0 || !this.isGrounded) return false;
+        this.launch();
+        if (!this.jumpHeld) this.stopJump(); // Already let go: short hop
+        return true;
+    }
+
+    // Timers behind the jump feel, for the debug readout
+    public getJumpTimers(): { coyote: number, buffer: number, hold: number } {
+        return { coyote: this.coyoteTimer, buffer: this.jumpBufferTimer, hold: this.jumpHoldTimer };
+    }
+
+    // True while letting go of jump would still shorten it
+    public isHoldingJump(): boolean {
+        return this.jumpHoldTimer > 0;
+    }
+
+    // Knocked upwards (against gravity) off an enemy's head or a spring; like a jump, but it
+    // doesn't cut short on release
+    public bounce(velocity: number = this.config.stompBounce) {
+        this.velocity.y = velocity * this.gravityDir;
+        this.isGrounded = false;
+        this.coyoteTimer = 0;
+        this.jumpHoldTimer = 0;
+    }
+
     public addDoubleJump() {
         this.doubleJumpCount++;
     }
 
+    // Moving against gravity, i.e. still on the way up from the player's point of view
+    public isRising(): boolean {
+        return this.velocity.y * this.gravityDir < 0;
+    }
+
+    // Gravity turns around; the player keeps its momentum and drops towards the other side
+    public flipGravity() {
+        this.gravityDir = this.gravityDir === 1 ? -1 : 1;
+        this.isGrounded = false;
+        this.coyoteTimer = 0;
+        this.jumpHoldTimer = 0;
+    }
+
+    // Jump released: if still early in the jump and moving up, cut the jump short
     public stopJump() {
-        // If moving up, cut the jump short
-        if (this.velocity.y < -5) {
-            this.velocity.y = -5;
+        this.jumpHeld = false;
+        if (this.jumpHoldTimer <= 0) return;
+        this.jumpHoldTimer = 0;
+
+        // Worked out as if gravity pointed down, then turned back
+        const velocity = this.velocity.y * this.gravityDir;
+        if (velocity < this.config.minJumpVelocity) {
+            this.velocity.y = Math.min(velocity * this.config.jumpReleaseCutoff, this.config.minJumpVelocity) * this.gravityDir;
         }
     }
 
+    // Independent copy for branching simulations (see Solver)
+    public clone(): Player {
+        const copy = new Player(this.config, this.position.x, this.position.y);
+        copy.previousPosition = { ...this.previousPosition };
+        copy.velocity = { ...this.velocity };
+        copy.isGrounded = this.isGrounded;
+        copy.doubleJumpCount = this.doubleJumpCount;
+        copy.gravityDir = this.gravityDir;
+        copy.currentFrame = this.currentFrame;
+        copy.frameTimer = this.frameTimer;
+        copy.jumpHoldTimer = this.jumpHoldTimer;
+        copy.coyoteTimer = this.coyoteTimer;
+        copy.jumpBufferTimer = this.jumpBufferTimer;
+        copy.jumpHeld = this.jumpHeld;
+        return copy;
+    }
+
     public getRect(): Rect {
         return {
             x: this.position.x,
@@ -88,29 +181,41 @@ export class Player {
         this.position.y = y;
         this.velocity.y = 0;
         this.isGrounded = true;
+        this.jumpHoldTimer = 0;
     }
 
     public setGrounded(grounded: boolean) {
         this.isGrounded = grounded;
     }
 
-    public draw(ctx: CanvasRenderingContext2D) {
-        let img = this.images.stop;
+    public draw(ctx: CanvasRenderingContext2D, alpha: number = 1) {
+        let img = getImage('assets/chara_stop.png');
 
         if (!this.isGrounded) {
             // Jumping/Falling
-            img = this.images.run2;
+            img = getImage('assets/chara_run_2.png');
         } else {
             // Running
-            img = this.currentFrame === 0 ? this.images.run1 : this.images.run2;
+            img = getImage(this.currentFrame === 0 ? 'assets/chara_run_1.png' : 'assets/chara_run_2.png');
         }
 
+        // Interpolate between the previous and current tick
+        const x = this.previousPosition.x + (this.position.x - this.previousPosition.x) * alpha;
+        const y = this.previousPosition.y + (this.position.y - this.previousPosition.y) * alpha;
+
+        ctx.save();
+        if (this.gravityDir === -1) {
+            // Upside down, feet on the ceiling
+            ctx.translate(0, y * 2 - this.size.height);
+            ctx.scale(1, -1);
+        }
         if (img.complete) {
-            ctx.drawImage(img, this.position.x, this.position.y - this.size.height, this.size.width, this.size.height);
+            ctx.drawImage(img, x, y - this.size.height, this.size.width, this.size.height);
         } else {
             // Fallback
             ctx.fillStyle = '#ed64a6'; // Pink-500
-            ctx.fillRect(this.position.x, this.position.y - this.size.height, this.size.width, this.size.height);
+            ctx.fillRect(x, y - this.size.height, this.size.width, this.size.height);
         }
+        ctx.restore();
     }
 }
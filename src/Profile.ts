@@ -0,0 +1,124 @@
+import { emptyItemCounts, isItemType } from './items';
+import type { DeathCause, PersonalBests, ProfileData, RunRecord } from './types';
+
+const PROFILE_STORAGE_KEY = 'playerProfile';
+const MAX_RUN_HISTORY = 200; // Oldest runs drop off past this; personal bests still remember them
+const MAX_NAME_LENGTH = 15; // Same as the name input's maxlength
+const DEATH_CAUSES: DeathCause[] = ['fall', 'wall', 'thorn', 'enemy'];
+
+// The player's name, run history and personal bests, kept in localStorage.
+// Exported and imported as JSON to move it to another browser.
+export class PlayerProfile {
+    private data: ProfileData;
+
+    constructor() {
+        this.data = this.load();
+    }
+
+    public get name(): string {
+        return this.data.name;
+    }
+
+    public setName(name: string) {
+        const trimmed = name.trim().slice(0, MAX_NAME_LENGTH);
+        if (!trimmed || trimmed === this.data.name) return;
+        this.data.name = trimmed;
+        this.save();
+    }
+
+    public getRuns(): RunRecord[] {
+        return this.data.runs;
+    }
+
+    public getBests(): PersonalBests {
+        return this.data.bests;
+    }
+
+    // Add a finished run to the history and the personal bests
+    public recordRun(run: RunRecord) {
+        this.data.runs.push(run);
+        if (this.data.runs.length > MAX_RUN_HISTORY) {
+            this.data.runs.splice(0, this.data.runs.length - MAX_RUN_HISTORY);
+        }
+
+        for (const key of Object.keys(this.data.bests) as Array<keyof PersonalBests>) {
+            this.data.bests[key] = Math.max(this.data.bests[key], run[key]);
+        }
+        this.save();
+    }
+
+    public export(): string {
+        return JSON.stringify(this.data, null, 2);
+    }
+
+    // Replace the profile with an exported one. Returns false (and keeps the current one) if it isn't one.
+    public import(json: string): boolean {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(json);
+        } catch (e) {
+            console.error("Failed to read profile", e);
+            return false;
+        }
+        const data = parseProfile(parsed);
+        if (!data) return false;
+        this.data = data;
+        this.save();
+        return true;
+    }
+
+    private save() {
+        localStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(this.data));
+    }
+
+    private load(): ProfileData {
+        try {
+            const saved = localStorage.getItem(PROFILE_STORAGE_KEY);
+            const data = saved ? parseProfile(JSON.parse(saved)) : null;
+            if (data) return data;
+        } catch (e) {
+            console.error("Failed to load profile", e);
+        }
+        return { version: 1, name: 'Player', runs: [], bests: { score: 0, level: 0, maxSpeed: 0, duration: 0, coins: 0 } };
+    }
+}
+
+function isCount(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+// Check a stored or imported profile, dropping runs that don't make sense (null if it isn't a profile)
+function parseProfile(value: unknown): ProfileData | null {
+    if (!value || typeof value !== 'object') return null;
+    const raw = value as Partial<ProfileData>;
+    if (raw.version !== 1 || typeof raw.name !== 'string' || !Array.isArray(raw.runs)) return null;
+
+    const runs: RunRecord[] = [];
+    for (const run of raw.runs as Array<Partial<RunRecord>>) {
+        if (!run || !isCount(run.date) || !isCount(run.score) || !isCount(run.level) || !isCount(run.maxSpeed) || !isCount(run.duration)) continue;
+        const items = emptyItemCounts();
+        for (const [type, count] of Object.entries(run.items ?? {})) {
+            if (isItemType(type) && isCount(count)) items[type] = count;
+        }
+        runs.push({
+            date: run.date,
+            score: run.score,
+            level: run.level,
+            maxSpeed: run.maxSpeed,
+            items,
+            coins: isCount(run.coins) ? run.coins : 0,
+            duration: run.duration,
+            deathCause: DEATH_CAUSES.includes(run.deathCause as DeathCause) ? run.deathCause! : null
+        });
+    }
+    runs.sort((a, b) => a.date - b.date);
+
+    // Bests are at least what the history shows
+    const bests: PersonalBests = { score: 0, level: 0, maxSpeed: 0, duration: 0, coins: 0 };
+    for (const key of Object.keys(bests) as Array<keyof PersonalBests>) {
+        const saved = raw.bests?.[key];
+        bests[key] = Math.max(isCount(saved) ? saved : 0, ...runs.map(run => run[key]));
+    }
+
+    return { version: 1, name: raw.name.trim().slice(0, MAX_NAME_LENGTH) || 'Player', runs: runs.slice(-MAX_RUN_HISTORY), bests };
+}
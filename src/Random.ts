@@ -0,0 +1,64 @@
+// Seedable PRNG (mulberry32) so a run can be reproduced from its seed
+export class Random {
+    public readonly seed: number;
+    private state: number;
+
+    constructor(seed: number) {
+        this.seed = seed >>> 0;
+        this.state = this.seed;
+    }
+
+    // Fresh seed for a new run
+    public static createSeed(): number {
+        return Math.floor(Math.random() * 0x100000000) >>> 0;
+    }
+
+    // Parse a seed from user input (e.g. URL parameter), null if invalid
+    public static parseSeed(value: string | null): number | null {
+        if (!value) return null;
+        const seed = Number(value);
+        if (!Number.isInteger(seed) || seed < 0 || seed > 0xffffffff) return null;
+        return seed;
+    }
+
+    // Float in [0, 1)
+    public next(): number {
+        this.state = (this.state + 0x6d2b79f5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+    }
+
+    // Float in [min, max)
+    public range(min: number, max: number): number {
+        return min + this.next() * (max - min);
+    }
+
+    // Integer in [0, max)
+    public int(max: number): number {
+        return Math.floor(this.next() * max);
+    }
+
+    // Copy that continues from the same point in the sequence
+    public clone(): Random {
+        const copy = new Random(this.seed);
+        copy.state = this.state;
+        return copy;
+    }
+
+    public pick<T>(items: readonly T[]): T {
+        return items[this.int(items.length)];
+    }
+
+    // Independent stream derived from this seed, so e.g. BGM changes (driven by wall-clock time)
+    // never shift the numbers used for stage generation
+    public fork(name: string): Random {
+        let hash = 0x811c9dc5; // FNV-1a
+        for (let i = 0; i < name.length; i++) {
+            hash ^= name.charCodeAt(i);
+            hash = Math.imul(hash, 0x01000193);
+        }
+        return new Random((this.seed ^ hash) >>> 0);
+    }
+}
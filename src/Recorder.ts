@@ -0,0 +1,35 @@
+import type { JumpInput, RunRecording } from './types';
+
+// Bump whenever a change to the simulation could make a recorded run play out differently;
+// replays are only played back on the version they were recorded on.
+// 2: jump releases cut jumps short (version 1 releases had no effect)
+// 3: coyote time and jump buffering
+// 4: swept collision, rotated hitboxes, enemies, coins, moving and one-way platforms, pads and
+//    gravity flips, crumbling and breakable blocks, slopes, power-ups, drop tables, combo scoring
+export const RECORDING_VERSION = 4;
+
+// Records a run's inputs and chunk order, stamped with the simulation tick they happened on
+export class RunRecorder {
+    private recording: RunRecording = RunRecorder.empty(0);
+
+    private static empty(seed: number): RunRecording {
+        return { version: RECORDING_VERSION, seed, ticks: 0, inputs: [], chunks: [] };
+    }
+
+    public start(seed: number) {
+        this.recording = RunRecorder.empty(seed);
+    }
+
+    public recordInput(tick: number, input: JumpInput) {
+        this.recording.inputs.push([tick, input]);
+    }
+
+    public recordChunk(tick: number, id: string) {
+        this.recording.chunks.push([tick, id]);
+    }
+
+    public finish(ticks: number): RunRecording {
+        this.recording.ticks = ticks;
+        return this.recording;
+    }
+}
@@ -0,0 +1,101 @@
+import type { GameConfig, ScoreSource, SimulationEvent } from './types';
+
+export type ScoreEvent = Extract<SimulationEvent, { type: 'score' }>;
+
+// One row of the game-over breakdown
+export interface ScoreLine {
+    source: ScoreSource;
+    label: string;
+    count: number;
+    points: number;
+}
+
+const SCORE_LABELS: Record<ScoreSource, string> = {
+    distance: 'Distance',
+    item: 'Items',
+    coin: 'Coins',
+    stomp: 'Stomps',
+    nearMiss: 'Near misses',
+    airChain: 'Air chains',
+    starBonus: 'Star bonus'
+};
+
+// All the scoring rules: what each move is worth, the combo multiplier and a tally per source.
+// The Simulation reports what happened; the score shown, saved and submitted all come from here.
+export class ScoreKeeper {
+    public total: number = 0;
+    public combo: number = 1; // Multiplier for scoring moves, built up by making them in quick succession
+    private readonly config: GameConfig;
+    private comboTimer: number = 0; // ms before the multiplier starts to drain
+    private airPickups: number = 0; // Pickups since the player last stood on something
+    private tally: Partial<Record<ScoreSource, { count: number, points: number }>> = {};
+
+    constructor(config: GameConfig) {
+        this.config = config;
+    }
+
+    // Independent copy for branching simulations (see Solver)
+    public clone(): ScoreKeeper {
+        const tally: typeof this.tally = {};
+        for (const [source, line] of Object.entries(this.tally)) {
+            tally[source as ScoreSource] = { ...line };
+        }
+        return Object.assign(Object.create(ScoreKeeper.prototype), this, { tally });
+    }
+
+    public update(dt: number) {
+        if (this.comboTimer > 0) {
+            this.comboTimer -= dt;
+        } else {
+            this.combo = Math.max(1, this.combo - this.config.comboDecay * dt / 1000);
+        }
+    }
+
+    // Add points for something that happened. Scoring moves are multiplied by the combo and then
+    // build it up; steady income like distance is neither. Points are whole so the breakdown adds up.
+    public award(source: ScoreSource, base: number, isMove: boolean = true): ScoreEvent {
+        const combo = isMove ? this.combo : 1;
+        const points = Math.round(base * combo);
+        this.total += points;
+
+        const line = this.tally[source] ?? { count: 0, points: 0 };
+        line.count++;
+        line.points += points;
+        this.tally[source] = line;
+
+        if (isMove) {
+            this.combo = Math.min(this.config.comboMax, this.combo + this.config.comboStep);
+            this.comboTimer = this.config.comboHold;
+        }
+        return { type: 'score', source, points, combo };
+    }
+
+    // An item or coin picked up in mid-air: the second and later in one airtime are a chain
+    public airPickup(): ScoreEvent | null {
+        this.airPickups++;
+        return this.airPickups >= 2 ? this.award('airChain', this.config.airChainScore * (this.airPickups - 1)) : null;
+    }
+
+    public land() {
+        this.airPickups = 0;
+    }
+
+    // Score for the run once it's over, with the bonus for unused double jumps
+    public finalScore(doubleJumps: number): number {
+        return this.total + doubleJumps * this.config.starBonus;
+    }
+
+    // What the final score is made of, one line per source that scored
+    public breakdown(doubleJumps: number): ScoreLine[] {
+        const lines: ScoreLine[] = [];
+        for (const source of Object.keys(SCORE_LABELS) as ScoreSource[]) {
+            const line = source === 'starBonus'
+                ? { count: doubleJumps, points: doubleJumps * this.config.starBonus }
+                : this.tally[source];
+            if (line && line.count > 0) {
+                lines.push({ source, label: SCORE_LABELS[source], ...line });
+            }
+        }
+        return lines;
+    }
+}
@@ -0,0 +1,623 @@
+import { StageManager } from './StageManager';
+import { Player } from './Player';
+import { Random } from './Random';
+import { overlaps, rotatedBox, sweep } from './collision';
+import { breakableDrop, isBreakable, isOneWay } from './platforms';
+import { ITEMS, effectOf, emptyItemCounts, isItemType } from './items';
+import { ScoreKeeper } from './Scoring';
+import { isSlope, slopeFacing, slopeLeftEdge, slopeSolidBox, slopeSteepness, slopeSurface } from './slopes';
+import { springLaunch, triggerArea, triggerType } from './triggers';
+import type { SweepHit } from './collision';
+import { FIXED_TIMESTEP, LOGICAL_HEIGHT } from './config';
+import type { ActiveEffect, ChunkDef, ChunkElement, Contact, DeathCause, GameConfig, ItemType, JumpInput, Rect, SimulationEvent, Vector2 } from './types';
+
+const MAX_CONTACTS_PER_TICK = 4; // e.g. bonk a ceiling, then land, in one tick
+
+// The game rules without any rendering, audio or DOM: scrolling, player physics, collisions,
+// items, level and score. Game drives one of these tick by tick; runHeadless drives one in Node.
+export class Simulation {
+    public readonly config: GameConfig;
+    public readonly stageManager: StageManager;
+    public player: Player;
+
+    public tick: number = 0; // Ticks simulated this run
+    public scoring: ScoreKeeper;
+    public level: number = 1;
+    public speedMultiplier: number = 1.0;
+    public maxSpeed: number = 1.0;
+    public collectedItems: Record<ItemType, number> = emptyItemCounts();
+    public effects: ActiveEffect[] = []; // Timed power-ups in effect
+    public coins: number = 0;
+    public speedPad: { factor: number, remaining: number } | null = null; // Boost or slow pad in effect (ms left)
+    public pickups: Array<[number, ItemType]> = []; // [tick, item]
+    public deathCause: DeathCause | null = null;
+    public deathElement: ChunkElement | null = null; // What killed the player (null for falls)
+
+    // Events and platform contacts from the last tick
+    public events: SimulationEvent[] = [];
+    public contacts: Contact[] = [];
+
+    private scrollSpeed: number = 6; // pixels per frame (approx 60fps)
+    private lastScoreDistance: number = 0;
+    private timeSinceLastSpeedIncrease: number = 0;
+    private totalPlayTime: number = 0;
+    private inFlipZone: boolean = false; // Gravity-flip zones flip on the way in, not every tick inside
+
+    constructor(config: GameConfig) {
+        this.config = config;
+        this.stageManager = new StageManager(config);
+        this.player = new Player(config, 100, LOGICAL_HEIGHT - 300);
+        this.scoring = new ScoreKeeper(config);
+    }
+
+    public reset(seed: number) {
+        this.tick = 0;
+        this.scoring = new ScoreKeeper(this.config);
+        this.level = 1;
+        this.speedMultiplier = 1.0;
+        this.maxSpeed = 1.0;
+        this.collectedItems = emptyItemCounts();
+        this.effects = [];
+        this.coins = 0;
+        this.speedPad = null;
+        this.pickups = [];
+        this.deathCause = null;
+        this.deathElement = null;
+        this.events = [];
+        this.contacts = [];
+
+        this.lastScoreDistance = 0;
+        this.timeSinceLastSpeedIncrease = 0;
+        this.totalPlayTime = 0;
+        this.inFlipZone = false;
+
+        this.stageManager.reset(new Random(seed));
+        this.player = new Player(this.config, 100, LOGICAL_HEIGHT - 300);
+    }
+
+    // Independent copy for branching simulations (see Solver)
+    public clone(): Simulation {
+        return Object.assign(Object.create(Simulation.prototype), this, {
+            player: this.player.clone(),
+            stageManager: this.stageManager.clone(),
+            scoring: this.scoring.clone(),
+            collectedItems: { ...this.collectedItems },
+            effects: this.effects.map(effect => ({ ...effect })),
+            speedPad: this.speedPad && { ...this.speedPad },
+            pickups: [...this.pickups],
+            events: [],
+            contacts: []
+        });
+    }
+
+    // Scroll speed right now, with any boost or slow pad and slow-mo on top of the run's speed
+    public get currentSpeed(): number {
+        let speed = this.speedMultiplier * (this.speedPad?.factor ?? 1);
+        for (const active of this.effects) {
+            speed *= effectOf(active, 'slowmo')?.factor ?? 1;
+        }
+        return speed;
+    }
+
+    // Score so far, as shown in the HUD
+    public get score(): number {
+        return this.scoring.total;
+    }
+
+    // Score for the run with the end-of-run bonuses; what's shown on the result screen and submitted
+    public get finalScore(): number {
+        return this.scoring.finalScore(this.player.doubleJumpCount);
+    }
+
+    public get isDead(): boolean {
+        return this.deathCause !== null;
+    }
+
+    // Inputs are applied between ticks
+    public applyInput(input: JumpInput): boolean {
+        if (input === 'press') {
+            return this.player.jump();
+        }
+        this.player.stopJump();
+        return false;
+    }
+
+    // Advance the simulation by one tick
+    public step() {
+        this.events = [];
+        this.contacts = [];
+        this.update(FIXED_TIMESTEP);
+        this.tick++;
+    }
+
+    // Apply an item's effect, starting (or stacking) its timer if it's a timed power-up
+    private useItem(type: ItemType) {
+        const item = ITEMS[type];
+        const effect = item.effect;
+        if (effect.type === 'speed') {
+            this.speedMultiplier = Math.max(effect.min, this.speedMultiplier + effect.amount);
+        } else if (effect.type === 'doubleJump') {
+            this.player.addDoubleJump();
+        }
+
+        if (!item.duration) return;
+        const running = this.effects.find(active => active.item === type);
+        if (running && item.stacking === 'refresh') {
+            running.remaining = running.duration = item.duration;
+        } else if (running && item.stacking === 'extend') {
+            running.remaining = running.duration = running.remaining + item.duration;
+        } else {
+            this.effects.push({ item: type, remaining: item.duration, duration: item.duration });
+        }
+    }
+
+    private die(cause: DeathCause, element: ChunkElement | null = null) {
+        if (this.deathCause) return;
+        this.deathCause = cause;
+        this.deathElement = element;
+        this.events.push({ type: 'death', cause });
+    }
+
+    // Move the player against the platforms along its actual motion this tick (relative to the
+    // scrolling world), resolving the earliest contact first by the face it hit: landing on a top,
+    // bonking a bottom, or running into a side. Returns true if the player ended up standing.
+    // With gravity flipped, tops and bottoms swap: the player lands on bottoms and bonks tops.
+    private resolvePlatforms(elements: ChunkElement[]): boolean {
+        const player = this.player;
+        const height = player.size.height;
+        const down = player.gravityDir;
+        const moveAmount = this.stageManager.getLastMoveAmount();
+
+        // Where the player's box was at the start of the tick, and how it moved since
+        const box = { x: player.position.x - moveAmount, y: player.previousPosition.y - height, width: player.size.width, height };
+        const delta = { x: moveAmount, y: player.position.y - player.previousPosition.y };
+        const start = { ...box };
+        let remaining = 1; // Share of the tick not yet resolved
+        let onGround = false;
+        const passing = new Set<ChunkElement>(); // Ledges we're rising through the lip of (or just broke)
+
+        // Solid area of each platform as drawn (i.e. rotated) at the end of the tick, and how far
+        // it moved by itself during the tick if it's a moving platform (for slopes, the box round
+        // their solid part)
+        const platforms = elements.filter(el => el.type === 'platform').map(el => ({
+            el,
+            bounds: isSlope(el) ? slopeSolidBox(el) : rotatedBox(el),
+            moved: this.stageManager.getOwnMotion(el) ?? { x: 0, y: 0 }
+        }));
+
+        // Standing on a moving platform: ride along with it. Only up and down, as the player never
+        // moves sideways (the world scrolls past instead).
+        if (player.isGrounded) {
+            const feet = down === 1 ? box.y + height : box.y;
+            const ground = platforms.find(({ bounds, moved }) =>
+                moved.y !== 0 &&
+                Math.abs((down === 1 ? bounds.y : bounds.y + bounds.height) - moved.y - feet) < 1 &&
+                box.x < bounds.x - moved.x + bounds.width &&
+                box.x + box.width > bounds.x - moved.x
+            );
+            if (ground) delta.y += ground.moved.y;
+        }
+
+        // A platform's box at the current point in the tick
+        const boundsNow = (bounds: Rect, moved: Vector2): Rect => ({
+            ...bounds,
+            x: bounds.x - moved.x * remaining,
+            y: bounds.y - moved.y * remaining
+        });
+
+        for (let i = 0; i < MAX_CONTACTS_PER_TICK; i++) {
+            let first: { hit: SweepHit, el: ChunkElement, bounds: Rect, moved: Vector2 } | null = null;
+            for (const { el, bounds, moved } of platforms) {
+                if (passing.has(el)) continue;
+                // Moving platforms are swept in their own frame, where they stand still
+                const relative = { x: delta.x - moved.x * remaining, y: delta.y - moved.y * remaining };
+                const target = boundsNow(bounds, moved);
+                const hit = moved.x === 0 && moved.y === 0 ? sweep(box, delta, bounds) : sweep(box, relative, target);
+
+                // One-way platforms only catch the player coming down onto them from above
+                // (with gravity flipped, the player passes through them entirely)
+                if (hit && isOneWay(el) && (down === -1 || relative.y < 0 || box.y + height > target.y + 0.01)) continue;
+
+                // Slopes only stop the player with their flat base and the side facing us, and that
+                // side only as far as the solid part reaches; the sloped surface is handled below
+                if (hit && isSlope(el)) {
+                    if (hit.normal.y === -slopeFacing(el) || hit.normal.x === 1) continue;
+                    if (hit.normal.x === -1) {
+                        const [edgeTop, edgeBottom] = slopeLeftEdge(el);
+                        const top = box.y + relative.y * hit.time;
+                        const overlap = Math.min(top + height, edgeBottom) - Math.max(top, edgeTop);
+                        const allowance = slopeFacing(el) === down ? this.config.stepUpHeight : this.config.headClipHeight;
+                        if (overlap <= allowance) continue;
+                    }
+                }
+
+                if (hit && (!first || hit.time < first.hit.time)) {
+                    first = { hit, el, bounds, moved };
+                }
+            }
+            if (!first) break;
+
+            const { hit, el, moved } = first;
+
+            // Move up to the contact, the rest of the motion is what's left to resolve
+            box.x += delta.x * hit.time;
+            box.y += delta.y * hit.time;
+            delta.x *= 1 - hit.time;
+            delta.y *= 1 - hit.time;
+            remaining *= 1 - hit.time;
+            const bounds = boundsNow(first.bounds, moved);
+
+            // Clipping the very top of a ledge (by the end of the tick, if rising) steps onto it
+            // rather than counting as a wall hit, as does reaching a one-way platform's end from above
+            const feetBelowTop = down === 1
+                ? Math.min(box.y, box.y + delta.y) + height - bounds.y
+                : bounds.y + bounds.height - Math.max(box.y, box.y + delta.y);
+            // Likewise clipping its underside on the way up is a bonk
+            const headAboveBottom = down === 1 ? bounds.y + bounds.height - box.y : box.y + height - bounds.y;
+            if (hit.normal.x === -1 && (feetBelowTop <= this.config.stepUpHeight || isOneWay(el))) {
+                hit.normal = { x: 0, y: -down };
+            } else if (hit.normal.x === -1 && player.isRising() && headAboveBottom <= this.config.headClipHeight) {
+                hit.normal = { x: 0, y: down };
+            }
+            this.contacts.push({ element: el, normal: hit.normal });
+
+            if (hit.normal.y === -down) {
+                if (player.isRising()) {
+                    // Still rising, so we'll clear it without help
+                    passing.add(el);
+                } else {
+                    // Landed on top (and moving with it for the rest of the tick)
+                    box.y = down === 1 ? bounds.y - height : bounds.y + bounds.height;
+                    delta.y = moved.y * remaining;
+                    onGround = true;
+                    this.stageManager.startCrumbling(el);
+                }
+            } else if (hit.normal.y === down) {
+                // Bonk! Stop upward movement and push out
+                box.y = down === 1 ? bounds.y + bounds.height : bounds.y - height;
+                delta.y = down === 1 ? Math.max(0, moved.y * remaining) : Math.min(0, moved.y * remaining);
+                player.velocity.y = 0;
+
+                if (isBreakable(el)) {
+                    // Shatters, leaving whatever it held where it was
+                    this.stageManager.removeElement(el);
+                    passing.add(el);
+                    const drop = breakableDrop(el);
+                    if (drop) this.stageManager.spawnDrop(drop, bounds);
+                    this.events.push({ type: 'blockBreak', blockType: 'breakable', x: bounds.x, y: bounds.y, width: bounds.width, height: bounds.height });
+                }
+            } else if (hit.normal.x === -1) {
+                // Ran into the side (death)
+                this.die('wall', el);
+                break;
+            } else {
+                // Can't be hit from behind while the world scrolls towards us, so just let it pass
+                delta.x = 0;
+            }
+        }
+
+        // Slopes: stand on the surface under the player, following it up and down while running,
+        // or bonk it head first if it faces the other way (running under one that comes down to
+        // meet the player is a wall)
+        let top = box.y + delta.y;
+        const feet = (y: number) => down === 1 ? y + height : y;
+        const head = (y: number) => down === 1 ? y : y + height;
+        const endX = box.x + delta.x;
+        let ground: { el: ChunkElement, surface: number } | null = null;
+        for (const { el } of this.deathCause ? [] : platforms) {
+            // Under the player at some point this tick, so running off its low end stays grounded
+            if (!isSlope(el) || start.x >= el.x + el.width || endX + box.width <= el.x) continue;
+            const surface = slopeSurface(el, endX, box.width);
+            const startSurface = slopeSurface(el, start.x, box.width);
+
+            if (slopeFacing(el) === down) {
+                // How far the feet are into it, now and at the start of the tick
+                const depth = (feet(top) - surface) * down;
+                const startDepth = (feet(start.y) - startSurface) * down;
+                // Running downhill from on or just above it, stay stuck to it rather than bouncing
+                // down in little falls (it drops away by at most the slope over this tick's run)
+                const follows = player.isGrounded && !onGround && startDepth >= -this.config.stepUpHeight &&
+                    depth >= startDepth - moveAmount * slopeSteepness(el) - 1;
+                if (!player.isRising() && startDepth <= this.config.stepUpHeight && (depth >= 0 || follows) &&
+                    (!ground || (surface - ground.surface) * down < 0)) {
+                    ground = { el, surface };
+                }
+            } else {
+                const depth = (surface - head(top)) * down;
+                const startDepth = (startSurface - head(start.y)) * down;
+                if (depth <= 0 || startDepth > this.config.headClipHeight) continue;
+                if (!onGround) {
+                    // Bonk, or once falling, get pushed down along it
+                    top = down === 1 ? surface : surface - height;
+                    if (player.isRising()) player.velocity.y = 0;
+                    this.contacts.push({ element: el, normal: { x: 0, y: down } });
+                } else {
+                    this.die('wall', el);
+                }
+            }
+        }
+        if (ground) {
+            top = down === 1 ? ground.surface - height : ground.surface;
+            onGround = true;
+            this.contacts.push({ element: ground.el, normal: { x: 0, y: -down } });
+        }
+
+        player.position.y = top + height;
+        if (onGround) {
+            player.land(player.position.y);
+        }
+        return onGround;
+    }
+
+    private update(dt: number) {
+        this.totalPlayTime += dt;
+        this.scoring.update(dt);
+
+        // Calculate Level (1 to 8, increases every 35 seconds)
+        const newLevel = Math.min(8, Math.floor(this.totalPlayTime / 35000) + 1);
+
+        if (newLevel > this.level) {
+            this.level = newLevel;
+            this.events.push({ type: 'levelUp', level: newLevel });
+        }
+
+        // Calculate Interval (10s base, -1s per level)
+        // Level 1: 10s, Level 2: 9s, ..., Level 5: 6s
+        const speedIncreaseInterval = (10 - (this.level - 1)) * 1000;
+
+        // Increase speed based on dynamic interval
+        this.timeSinceLastSpeedIncrease += dt;
+        if (this.timeSinceLastSpeedIncrease > speedIncreaseInterval) {
+            this.speedMultiplier += this.config.speedIncreaseRate;
+            this.timeSinceLastSpeedIncrease = 0;
+            if (this.config.speedIncreaseRate > 0) this.events.push({ type: 'speedUp', speed: this.speedMultiplier });
+        }
+
+        // Boost and slow pads and power-ups wear off
+        if (this.speedPad) {
+            this.speedPad.remaining -= dt;
+            if (this.speedPad.remaining <= 0) this.speedPad = null;
+        }
+        for (const active of this.effects) active.remaining -= dt;
+        this.effects = this.effects.filter(active => active.remaining > 0);
+
+        this.stageManager.update(dt, this.currentSpeed, this.scrollSpeed);
+        this.player.update(dt, this.currentSpeed);
+
+        for (const el of this.stageManager.getCollapsed()) {
+            this.events.push({ type: 'blockBreak', blockType: 'crumble', x: el.x, y: el.y, width: el.width, height: el.height });
+        }
+
+        // A magnet draws nearby items and coins in, so they're looked for further out too
+        const reach = this.pullItems();
+
+        // Collision detection, against what's near the path the player took this tick
+        const moveAmount = this.stageManager.getLastMoveAmount();
+        const elements = this.stageManager.getElementsNear(this.player.position.x - moveAmount - reach, this.player.size.width + moveAmount + reach * 2);
+        const onGround = this.resolvePlatforms(elements);
+
+        // The path the player actually took this tick, relative to the scrolling world
+        const playerRect = this.player.getRect();
+        const startRect = { ...playerRect, x: playerRect.x - moveAmount, y: this.player.previousPosition.y - playerRect.height };
+        const motion = { x: moveAmount, y: this.player.position.y - this.player.previousPosition.y };
+        let inFlipZone = false;
+
+        for (const el of elements) {
+            if (el.type === 'item') {
+                // Check collision with item
+                if (overlaps(playerRect, el)) {
+                    // Item collected
+                    if (isItemType(el.subtype)) {
+                        this.collectedItems[el.subtype]++;
+                        this.pickups.push([this.tick, el.subtype]);
+                        this.events.push({ type: 'item', subtype: el.subtype });
+                        this.useItem(el.subtype);
+                        const effect = ITEMS[el.subtype].effect;
+                        this.events.push(this.scoring.award('item', effect.type === 'score' ? effect.amount : 0));
+                        this.airPickup(onGround);
+                    }
+
+                    // Remove item
+                    this.stageManager.removeElement(el);
+                }
+            } else if (el.type === 'coin') {
+                if (overlaps(playerRect, el)) {
+                    this.coins++;
+                    this.events.push({ type: 'coin' });
+                    this.events.push(this.scoring.award('coin', this.config.coinScore));
+                    this.airPickup(onGround);
+                    this.stageManager.removeElement(el);
+                }
+            } else if (el.type === 'thorn') {
+                // Check collision with thorn
+                // Hitbox: 50% width, 50% height at the spikes' base, turned with the thorn
+                const hitbox = rotatedBox(el, { x: el.width * 0.25, y: el.height * 0.5, width: el.width * 0.5, height: el.height * 0.5 });
+
+                // Swept, so a fast player can't pass through it between ticks
+                if (sweep(startRect, motion, hitbox)) {
+                    const shield = this.effects.findIndex(active => effectOf(active, 'shield'));
+                    if (shield >= 0) {
+                        // The shield takes the hit (and the thorn with it)
+                        this.effects.splice(shield, 1);
+                        this.stageManager.removeElement(el);
+                        this.events.push({ type: 'shield', x: el.x + el.width / 2, y: el.y + el.height / 2 });
+                    } else {
+                        this.die('thorn', el);
+                    }
+                } else if (hitbox.x + hitbox.width <= playerRect.x && hitbox.x + hitbox.width + moveAmount > playerRect.x) {
+                    // Just slipped past it: a near miss if it was close above or below
+                    const gap = Math.max(hitbox.y - (playerRect.y + playerRect.height), playerRect.y - (hitbox.y + hitbox.height));
+                    if (gap <= this.config.nearMissGap) {
+                        this.events.push(this.scoring.award('nearMiss', this.config.nearMissScore));
+                    }
+                }
+            } else if (el.type === 'enemy') {
+                const hit = sweep(startRect, motion, el);
+                if (hit?.normal.y === -this.player.gravityDir) {
+                    // Stomped from above (or below, with gravity flipped)
+                    this.stageManager.removeElement(el);
+                    this.player.bounce();
+                    this.events.push({ type: 'stomp', x: el.x + el.width / 2, y: el.y });
+                    this.events.push(this.scoring.award('stomp', this.config.stompScore));
+                } else if (hit) {
+                    // Touching it anywhere else is fatal
+                    this.die('enemy', el);
+                }
+            } else if (el.type === 'trigger') {
+                const type = triggerType(el);
+                const area = rotatedBox(el, triggerArea(el));
+                if (type === 'gravity_flip') {
+                    if (overlaps(playerRect, area)) inFlipZone = true;
+                } else if (type && sweep(startRect, motion, area)) {
+                    if (type === 'spring') {
+                        // Only when coming onto it, not again while flying off
+                        if (!this.player.isRising()) {
+                            this.player.bounce(-springLaunch(el, this.config));
+                            this.events.push({ type: 'spring' });
+                        }
+                    } else {
+                        // Pads restart the timer each touch; a different pad replaces the effect
+                        const factor = type === 'boost' ? this.config.boostPadFactor : this.config.slowPadFactor;
+                        if (this.speedPad?.factor !== factor) this.events.push({ type: 'speedPad', subtype: type });
+                        this.speedPad = { factor, remaining: this.config.speedPadDuration };
+                    }
+                }
+            }
+        }
+
+        // Entering a gravity-flip zone turns gravity around until the next one
+        if (inFlipZone && !this.inFlipZone) {
+            this.player.flipGravity();
+            this.events.push({ type: 'gravityFlip', flipped: this.player.gravityDir === -1 });
+        }
+        this.inFlipZone = inFlipZone;
+
+        if (!onGround) {
+            this.player.setGrounded(false);
+        } else {
+            this.scoring.land();
+            if (this.player.tryBufferedJump()) {
+                this.events.push({ type: 'jump' });
+            }
+        }
+
+        // Score update (Cumulative based on distance chunks)
+        const currentTotalDist = this.stageManager.getTotalDistance();
+        // Check how many 100px chunks we've passed since last update
+        while (currentTotalDist - this.lastScoreDistance >= 100) {
+            this.lastScoreDistance += 100;
+
+            this.scoring.award('distance', 3 + (this.level * this.speedMultiplier * 2), false);
+        }
+
+        // Track Max Speed
+        if (this.speedMultiplier > this.maxSpeed) {
+            this.maxSpeed = this.speedMultiplier;
+        }
+
+        // Check fall off
+        // Game Over when player is no longer visible (top of player matches or exceeds bottom of screen,
+        // or its bottom the top of the screen when falling upwards)
+        if (this.player.position.y - this.player.size.height > LOGICAL_HEIGHT) {
+            this.die('fall');
+        } else if (this.player.gravityDir === -1 && this.player.position.y < 0) {
+            this.die('fall');
+        }
+    }
+
+    // Count an item or coin picked up off the ground towards a chain
+    private airPickup(onGround: boolean) {
+        if (onGround) return;
+        const chain = this.scoring.airPickup();
+        if (chain) this.events.push(chain);
+    }
+
+    // Move items and coins towards the player while a magnet is running. Returns how far out
+    // that reaches (0 without a magnet).
+    private pullItems(): number {
+        let magnet: { radius: number, pull: number } | null = null;
+        for (const active of this.effects) {
+            const effect = effectOf(active, 'magnet');
+            if (effect && (!magnet || effect.radius > magnet.radius)) magnet = effect;
+        }
+        if (!magnet) return 0;
+
+        const centerX = this.player.position.x + this.player.size.width / 2;
+        const centerY = this.player.position.y - this.player.size.height / 2;
+        for (const el of this.stageManager.getElementsNear(centerX - magnet.radius, magnet.radius * 2)) {
+            if (el.type !== 'item' && el.type !== 'coin') continue;
+            const dx = centerX - (el.x + el.width / 2);
+            const dy = centerY - (el.y + el.height / 2);
+            const distance = Math.hypot(dx, dy);
+            if (distance === 0 || distance > magnet.radius) continue;
+            const step = Math.min(distance, magnet.pull);
+            this.stageManager.moveElement(el, dx / distance * step, dy / distance * step);
+        }
+        return magnet.radius;
+    }
+
+    // True once a fixed chunk sequence (test stage / headless course) has been run through
+    public isCourseComplete(): boolean {
+        const courseLength = this.stageManager.getCourseLength();
+        return courseLength !== null && this.stageManager.getTotalDistance() > courseLength;
+    }
+}
+
+export interface HeadlessOptions {
+    chunks: ChunkDef[]; // Course to run, placed after the usual flat start
+    config: GameConfig;
+    inputs: Array<[number, JumpInput]>; // [tick, input], same format as RunRecording.inputs
+    seed?: number;
+    speedMultiplier?: number; // Fixed speed with no speed-ups, like test mode
+    maxTicks?: number;
+    onTick?: (sim: Simulation) => void; // Called after every tick, e.g. to trace the player
+}
+
+export interface HeadlessResult {
+    cleared: boolean;
+    deathCause: DeathCause | null;
+    ticks: number;
+    distance: number;
+    score: number;
+    items: Record<ItemType, number>;
+    coins: number;
+    pickups: Array<[number, ItemType]>;
+}
+
+// Run a course without a browser and report how it ended
+export function runHeadless(options: HeadlessOptions): HeadlessResult {
+    const config = options.speedMultiplier !== undefined
+        ? { ...options.config, speedIncreaseRate: 0 }
+        : { ...options.config };
+    const maxTicks = options.maxTicks ?? 60 * 60 * 10; // 10 minutes
+
+    const sim = new Simulation(config);
+    sim.stageManager.setChunkSequence(options.chunks);
+    sim.reset(options.seed ?? 1);
+    if (options.speedMultiplier !== undefined) {
+        sim.speedMultiplier = options.speedMultiplier;
+    }
+
+    const inputs = [...options.inputs].sort((a, b) => a[0] - b[0]);
+    let inputIndex = 0;
+
+    while (!sim.isDead && !sim.isCourseComplete() && sim.tick < maxTicks) {
+        while (inputIndex < inputs.length && inputs[inputIndex][0] <= sim.tick) {
+            sim.applyInput(inputs[inputIndex][1]);
+            inputIndex++;
+        }
+        sim.step();
+        options.onTick?.(sim);
+    }
+
+    return {
+        cleared: !sim.isDead && sim.isCourseComplete(),
+        deathCause: sim.deathCause,
+        ticks: sim.tick,
+        distance: sim.stageManager.getTotalDistance(),
+        score: sim.finalScore,
+        items: { ...sim.collectedItems },
+        coins: sim.coins,
+        pickups: sim.pickups
+    };
+}
@@ -0,0 +1,179 @@
+import { Simulation, runHeadless } from './Simulation';
+import type { ChunkDef, GameConfig, JumpInput } from './types';
+
+const BLOCK_SIZE = 100;
+const MAX_FRONTIER = 400; // States kept per tick; plenty once near-identical ones are merged
+const MAX_TICKS = 60 * 60 * 5; // 5 minutes of play
+const TICKS_PER_SLICE = 20; // Ticks searched before yielding back to the page
+const RELEASE_STEP = 3; // Short hops are tried with hold times in steps of this many ticks
+
+export interface SolveResult {
+    solvable: boolean;
+    inputs: Array<[number, JumpInput]>; // A winning input script (empty if unsolvable)
+    path: Array<[number, number]>; // Player centre along the winning run, in stage coordinates
+    deathCell: { x: number, y: number } | null; // Grid cell where the furthest attempts died
+}
+
+// One decision in the search tree; the winning input script is rebuilt by walking back up
+interface SearchNode {
+    sim: Simulation;
+    parent: SearchNode | null;
+    input: [number, JumpInput] | null; // Input this node applied before its tick, if any
+}
+
+// Stage as the solver sees it: item spawn areas are random, so a clear must not depend on them
+function solverStage(stage: ChunkDef): ChunkDef {
+    return { ...stage, elements: stage.elements.filter(el => el.type !== 'item_area') };
+}
+
+// Player states that will play out the same from here on
+function stateKey(sim: Simulation): string {
+    const player = sim.player;
+    return [
+        Math.round(sim.stageManager.getTotalDistance()),
+        Math.round(player.position.y),
+        Math.round(player.velocity.y * 2),
+        player.isGrounded ? 1 : 0,
+        player.isHoldingJump() ? 1 : 0,
+        player.doubleJumpCount,
+        player.gravityDir,
+        sim.speedPad ? `${sim.speedPad.factor}:${Math.round(sim.speedPad.remaining)}` : 0,
+        sim.effects.map(active => `${active.item}:${Math.round(active.remaining)}`).join(','),
+        sim.stageManager.getElementCount(), // Differs once an item is taken or an enemy stomped
+        sim.stageManager.getCrumbleCount(),
+        sim.speedMultiplier
+    ].join('|');
+}
+
+// Grid cell a death happened in, in stage coordinates
+function deathCell(sim: Simulation): { x: number, y: number } | null {
+    const el = sim.deathElement;
+    const screenX = el ? el.x + el.width / 2 : sim.player.position.x + sim.player.size.width / 2;
+    const courseX = sim.stageManager.toCourseX(screenX);
+    if (courseX === null) return null;
+
+    const y = el ? el.y + el.height / 2 : 750; // Falls are marked on the bottom row
+    return {
+        x: Math.floor(courseX / BLOCK_SIZE) * BLOCK_SIZE,
+        y: Math.floor(y / BLOCK_SIZE) * BLOCK_SIZE
+    };
+}
+
+// Search jump timings, tick by tick, for a way through the stage at a fixed speed.
+// Uses the real Simulation, so it agrees with the game on what is possible.
+export async function solveStage(stage: ChunkDef, config: GameConfig, speed: number): Promise<SolveResult> {
+    const chunks = [solverStage(stage)];
+    const fixedConfig = { ...config, speedIncreaseRate: 0 };
+
+    // Full jumps only first (a much smaller search), then again with short hops
+    const fullJumps = await search(chunks, fixedConfig, speed, false);
+    if (fullJumps.solved) return fullJumps.result;
+    const shortHops = await search(chunks, fixedConfig, speed, true);
+    if (shortHops.solved) return shortHops.result;
+
+    // Report wherever the attempts got furthest
+    return shortHops.furthest >= fullJumps.furthest ? shortHops.result : fullJumps.result;
+}
+
+async function search(chunks: ChunkDef[], config: GameConfig, speed: number, shortHops: boolean): Promise<{ solved: boolean, furthest: number, result: SolveResult }> {
+    const root = new Simulation(config);
+    root.stageManager.setChunkSequence(chunks);
+    root.reset(1);
+    root.speedMultiplier = speed;
+
+    let frontier: SearchNode[] = [{ sim: root, parent: null, input: null }];
+    let furthestDeath: Simulation | null = null;
+
+    while (frontier.length > 0 && frontier[0].sim.tick < MAX_TICKS) {
+        const next: SearchNode[] = [];
+        const seen = new Set<string>();
+        const tick = frontier[0].sim.tick;
+
+        for (const node of frontier) {
+            // Branches: carry on as we are (reusing the node's own sim), press jump, or let go of
+            // a jump early. Carrying on comes first so the fewest inputs win when states merge.
+            const branches: SearchNode[] = [{ sim: node.sim, parent: node, input: null }];
+            const inputs: JumpInput[] = [];
+            if (shortHops && tick % RELEASE_STEP === 0 && node.sim.player.isHoldingJump()) inputs.push('release');
+            if (node.sim.player.canJump()) inputs.push('press');
+
+            for (const input of inputs) {
+                const branch = node.sim.clone();
+                branch.applyInput(input);
+                branches.push({ sim: branch, parent: node, input: [tick, input] });
+            }
+
+            for (const branch of branches) {
+                branch.sim.step();
+
+                if (branch.sim.isDead) {
+                    if (!furthestDeath || branch.sim.stageManager.getTotalDistance() >= furthestDeath.stageManager.getTotalDistance()) {
+                        furthestDeath = branch.sim;
+                    }
+                    continue;
+                }
+
+                if (branch.sim.isCourseComplete()) {
+                    const inputs = collectInputs(branch);
+                    return {
+                        solved: true,
+                        furthest: branch.sim.stageManager.getTotalDistance(),
+                        result: { solvable: true, inputs, path: tracePath(chunks, config, speed, inputs), deathCell: null }
+                    };
+                }
+
+                const key = stateKey(branch.sim);
+                if (!seen.has(key) && next.length < MAX_FRONTIER) {
+                    seen.add(key);
+                    next.push(branch);
+                }
+            }
+        }
+
+        frontier = next;
+
+        // Keep the page responsive during long searches
+        if (tick % TICKS_PER_SLICE === 0) {
+            await new Promise(resolve => setTimeout(resolve, 0));
+        }
+    }
+
+    return {
+        solved: false,
+        furthest: furthestDeath?.stageManager.getTotalDistance() ?? 0,
+        result: {
+            solvable: false,
+            inputs: [],
+            path: [],
+            deathCell: furthestDeath ? deathCell(furthestDeath) : null
+        }
+    };
+}
+
+function collectInputs(node: SearchNode): Array<[number, JumpInput]> {
+    const inputs: Array<[number, JumpInput]> = [];
+    for (let n: SearchNode | null = node; n; n = n.parent) {
+        if (n.input) inputs.push(n.input);
+    }
+    return inputs.reverse();
+}
+
+// Replay the winning inputs and record where the player went
+function tracePath(chunks: ChunkDef[], config: GameConfig, speed: number, inputs: Array<[number, JumpInput]>): Array<[number, number]> {
+    const path: Array<[number, number]> = [];
+    runHeadless({
+        chunks,
+        config,
+        inputs,
+        seed: 1,
+        speedMultiplier: speed,
+        onTick: (sim) => {
+            const player = sim.player;
+            const courseX = sim.stageManager.toCourseX(player.position.x + player.size.width / 2);
+            if (courseX !== null && courseX >= 0) {
+                path.push([courseX, player.position.y - player.size.height / 2]);
+            }
+        }
+    });
+    return path;
+}
@@ -1,5 +1,16 @@
-import { API_BASE_URL, LOGICAL_HEIGHT, LOGICAL_WIDTH } from './config';
-import type { ChunkDef } from './types';
+import { API_BASE_URL, DEFAULT_GAME_CONFIG, FIXED_TIMESTEP, LOGICAL_HEIGHT, LOGICAL_WIDTH } from './config';
+import { solveStage } from './Solver';
+import { drawEnemy, enemyMotionBounds, isEnemyType } from './enemies';
+import { drawTrigger, isTriggerType, springLaunch, triggerType } from './triggers';
+import { drawSlope, isSlope } from './slopes';
+import { BLOCK_DROPS, drawItem, dropTable, guaranteedDrop, isItemType } from './items';
+import { MOVING_PLATFORM_DEFAULTS, PLATFORM_PATHS, breakableDrop, crumbleDelay, drawBreakableBlock, drawCrumblingBlock, drawOneWayPlatform, isBreakable, isCrumbling, isOneWay, platformOffset, platformPath, platformPeriod } from './platforms';
+import type { SolveResult } from './Solver';
+import type { BlockDrop, ChunkDef, ChunkElement, DropTable, PlatformPath } from './types';
+
+const CHECK_SPEEDS = ['1.0', '2.0', '3.0'];
+const DROP_TABLE_KEYS: Array<BlockDrop | 'none'> = [...BLOCK_DROPS, 'none']; // Rows of the item area inspector
+const PATH_COLORS: { [key: string]: string } = { '1.0': '#22c55e', '2.0': '#eab308', '3.0': '#f97316' };
 
 export class StageMaker {
     private canvas: HTMLCanvasElement;
@@ -9,7 +20,12 @@ export class StageMaker {
     private currentStage: ChunkDef = { id: '', width: 0, elements: [] };
     private selectedTool: { type: string, blockType?: string } | null = null;
     private currentRotation: number = 0;
+    private currentMirror: boolean = false;
+    private selectedElement: ChunkElement | null = null; // Block or spring being edited with the EDIT tool
     private clearedSpeeds: { [key: string]: boolean } = { '1.0': false, '2.0': false, '3.0': false };
+    private solveResults: { [key: string]: SolveResult } = {};
+    private isSolving: boolean = false;
+    private solveRun: number = 0; // Bumped on every edit so a running check can tell it's stale
 
     // Viewport
     private scale: number = 1;
@@ -25,9 +41,6 @@ export class StageMaker {
     private stoneImage: HTMLImageElement;
     private soilImage: HTMLImageElement;
     private thornImage: HTMLImageElement;
-    private onigiriImage: HTMLImageElement;
-    private icecreamImage: HTMLImageElement;
-    private starImage: HTMLImageElement;
 
     constructor() {
         this.canvas = document.getElementById('stagemaker-canvas') as HTMLCanvasElement;
@@ -37,9 +50,6 @@ export class StageMaker {
         this.stoneImage = new Image(); this.stoneImage.src = 'assets/stone.png';
         this.soilImage = new Image(); this.soilImage.src = 'assets/soil.png';
         this.thornImage = new Image(); this.thornImage.src = 'assets/thorn.png';
-        this.onigiriImage = new Image(); this.onigiriImage.src = 'assets/onigiri.png';
-        this.icecreamImage = new Image(); this.icecreamImage.src = 'assets/icecream.png';
-        this.starImage = new Image(); this.starImage.src = 'assets/star.png';
 
         this.initUI();
         this.resize();
@@ -97,12 +107,12 @@ export class StageMaker {
             confirmYesBtn.addEventListener('click', () => {
                 // Reset State
                 this.currentStage = { id: '', width: 0, elements: [] };
-                this.clearedSpeeds = { '1.0': false, '2.0': false, '3.0': false };
+                this.selectElement(null);
+                this.invalidateSolve();
 
                 // Clear LocalStorage
                 localStorage.removeItem('stageMakerDraft');
                 localStorage.removeItem('stageMakerDraftMeta');
-                localStorage.removeItem('testCompleted');
                 localStorage.removeItem('testStage');
 
                 // Reset UI
@@ -177,15 +187,9 @@ export class StageMaker {
                     return;
                 }
 
-                // Determine speed to test
-                let speedToTest = '1.0';
-                if (!this.clearedSpeeds['1.0']) speedToTest = '1.0';
-                else if (!this.clearedSpeeds['2.0']) speedToTest = '2.0';
-                else if (!this.clearedSpeeds['3.0']) speedToTest = '3.0';
-                else speedToTest = '3.0'; // Default to max if all cleared
-
+                // Test play is just for feel now; clears are verified by the solvability check
                 localStorage.setItem('testStage', JSON.stringify(this.currentStage));
-                localStorage.setItem('testSpeed', speedToTest);
+                localStorage.setItem('testSpeed', '1.0');
                 this.saveDraft(); // Ensure draft is saved
                 window.location.href = '/index.html?mode=test';
             });
@@ -193,11 +197,22 @@ export class StageMaker {
             console.error("Test Play button not found");
         }
 
+        // Solvability Check Button
+        const solveBtn = document.getElementById('solve-btn');
+        if (solveBtn) {
+            solveBtn.addEventListener('click', () => this.runSolver());
+        } else {
+            console.error("Solve button not found");
+        }
+
         // Publish Button
         const publishBtn = document.getElementById('publish-btn');
         if (publishBtn) {
             publishBtn.addEventListener('click', () => {
-                // Requirement relaxed: Allow publishing immediately
+                if (!CHECK_SPEEDS.every(speed => this.clearedSpeeds[speed])) {
+                    alert("Run the solvability check first! The stage must be clearable at every speed.");
+                    return;
+                }
                 this.publishStage();
             });
         } else {
@@ -225,20 +240,7 @@ export class StageMaker {
             }
         }
 
-        // 2. Process Test Completion (Merge results)
-        const lastTestSpeed = localStorage.getItem('testSpeed');
-        const testCompleted = localStorage.getItem('testCompleted') === 'true';
-
-        if (testCompleted && lastTestSpeed) {
-            // Mark as cleared
-            this.clearedSpeeds[lastTestSpeed] = true;
-            localStorage.removeItem('testCompleted'); // Consume the flag
-
-            // Save immediately so we don't lose it on refresh
-            this.saveDraft();
-        }
-
-        // 3. Update UI based on state
+        // 2. Update UI based on state
         this.updateChecklistUI();
 
         if (this.currentStage.width > 0) {
@@ -292,6 +294,7 @@ export class StageMaker {
                 const block = target.dataset.block;
 
                 this.selectedTool = { type, blockType: block };
+                if (type !== 'inspect') this.selectElement(null);
 
                 // Visual feedback
                 document.querySelectorAll('.block-btn').forEach(b => {
@@ -312,6 +315,121 @@ export class StageMaker {
                 if (span) span.textContent = `${this.currentRotation}°`;
             });
         }
+
+        // Mirror Button
+        const mirrorBtn = document.getElementById('mirror-btn');
+        if (mirrorBtn) {
+            mirrorBtn.addEventListener('click', () => {
+                this.currentMirror = !this.currentMirror;
+                const span = mirrorBtn.querySelector('span:last-child');
+                if (span) span.textContent = this.currentMirror ? 'ON' : 'OFF';
+            });
+        }
+
+        // Inspector for the EDIT tool
+        ['platform-path', 'platform-range', 'platform-speed', 'platform-phase', 'crumble-delay', 'breakable-drop', 'spring-launch',
+            'item-area-guaranteed', ...DROP_TABLE_KEYS.map(key => `drop-weight-${key}`)].forEach(id => {
+            document.getElementById(id)?.addEventListener('change', () => this.applyInspector());
+        });
+    }
+
+    // Show the inspector for a block, spring or item area (or hide it for null), with the sections that apply to it
+    private selectElement(el: ChunkElement | null) {
+        this.selectedElement = el;
+
+        const inspector = document.getElementById('element-inspector');
+        inspector?.classList.toggle('hidden', !el);
+        inspector?.classList.toggle('flex', !!el);
+        if (!el) return;
+
+        const sections: Record<string, boolean> = {
+            'platform-fields': el.type === 'platform',
+            'crumble-fields': isCrumbling(el),
+            'breakable-fields': isBreakable(el),
+            'spring-fields': triggerType(el) === 'spring',
+            'item-area-fields': el.type === 'item_area'
+        };
+        for (const [id, shown] of Object.entries(sections)) {
+            document.getElementById(id)?.classList.toggle('hidden', !shown);
+        }
+
+        const setValue = (id: string, value: string) => {
+            const input = document.getElementById(id) as HTMLInputElement | HTMLSelectElement | null;
+            if (input) input.value = value;
+        };
+        setValue('platform-path', platformPath(el) ?? '');
+        (['range', 'speed', 'phase'] as const).forEach(name => {
+            setValue(`platform-${name}`, String(el.properties?.[name] ?? MOVING_PLATFORM_DEFAULTS[name]));
+            const input = document.getElementById(`platform-${name}`) as HTMLInputElement | null;
+            if (input) input.disabled = !platformPath(el);
+        });
+        setValue('crumble-delay', String(crumbleDelay(el, DEFAULT_GAME_CONFIG)));
+        setValue('breakable-drop', breakableDrop(el) ?? '');
+        setValue('spring-launch', String(springLaunch(el, DEFAULT_GAME_CONFIG)));
+        const table = dropTable(el, DEFAULT_GAME_CONFIG);
+        DROP_TABLE_KEYS.forEach(key => setValue(`drop-weight-${key}`, String(table[key] ?? 0)));
+        setValue('item-area-guaranteed', guaranteedDrop(el) ?? '');
+    }
+
+    // Write the inspector's fields back to the selected block, spring or item area
+    private applyInspector() {
+        const el = this.selectedElement;
+        if (!el) return;
+
+        const readValue = (id: string) => (document.getElementById(id) as HTMLInputElement | HTMLSelectElement | null)?.value ?? '';
+        const readNumber = (id: string, fallback: number, min: number, max: number) => {
+            const value = parseFloat(readValue(id));
+            return isNaN(value) ? fallback : Math.max(min, Math.min(max, value));
+        };
+
+        // Start from any other properties the element has, then write back the sections it shows.
+        // Values left at their defaults aren't stored.
+        const properties: Record<string, unknown> = { ...el.properties };
+        ['path', 'range', 'speed', 'phase', 'delay', 'drop', 'launch', 'drops', 'guaranteed'].forEach(key => delete properties[key]);
+
+        if (el.type === 'platform') {
+            const path = readValue('platform-path') as PlatformPath | '';
+            if (path && PLATFORM_PATHS.includes(path)) {
+                properties.path = path;
+                properties.range = readNumber('platform-range', MOVING_PLATFORM_DEFAULTS.range, 0.5, 10);
+                properties.speed = readNumber('platform-speed', MOVING_PLATFORM_DEFAULTS.speed, 0.25, 5);
+                properties.phase = readNumber('platform-phase', MOVING_PLATFORM_DEFAULTS.phase, 0, 1);
+            }
+        }
+        if (isCrumbling(el)) {
+            const delay = readNumber('crumble-delay', DEFAULT_GAME_CONFIG.crumbleDelay, 0, 5000);
+            if (delay !== DEFAULT_GAME_CONFIG.crumbleDelay) properties.delay = delay;
+        }
+        if (isBreakable(el)) {
+            const drop = readValue('breakable-drop') as BlockDrop | '';
+            if (drop && BLOCK_DROPS.includes(drop)) properties.drop = drop;
+        }
+        if (triggerType(el) === 'spring') {
+            const launch = readNumber('spring-launch', DEFAULT_GAME_CONFIG.springLaunch, 5, 40);
+            if (launch !== DEFAULT_GAME_CONFIG.springLaunch) properties.launch = launch;
+        }
+
+        if (el.type === 'item_area') {
+            const table: DropTable = {};
+            DROP_TABLE_KEYS.forEach(key => {
+                const weight = readNumber(`drop-weight-${key}`, 0, 0, 1000);
+                if (weight > 0) table[key] = weight;
+            });
+            const defaults = DEFAULT_GAME_CONFIG.itemDropTable;
+            const isDefault = DROP_TABLE_KEYS.every(key => (table[key] ?? 0) === (defaults[key] ?? 0));
+            if (!isDefault) properties.drops = table;
+
+            const guaranteed = readValue('item-area-guaranteed') as BlockDrop | '';
+            if (guaranteed && BLOCK_DROPS.includes(guaranteed)) properties.guaranteed = guaranteed;
+        }
+
+        el.properties = Object.keys(properties).length > 0 ? properties : undefined;
+
+        this.invalidateSolve();
+        this.updateChecklistUI();
+        this.selectElement(el); // Show the clamped values
+        this.saveDraft();
+        this.draw();
     }
 
     private async publishStage() {
@@ -327,7 +445,6 @@ export class StageMaker {
 
             if (response.ok) {
                 alert("Stage Published Successfully!");
-                localStorage.removeItem('testCompleted');
                 localStorage.removeItem('testStage');
                 localStorage.removeItem('stageMakerDraft'); // Clear draft
                 localStorage.removeItem('stageMakerDraftMeta');
@@ -341,11 +458,50 @@ export class StageMaker {
         }
     }
 
-    private updateChecklistUI() {
-        const speeds = ['1.0', '2.0', '3.0'];
+    // Search for a clear at every check speed; results replace the old test-play checklist
+    private async runSolver() {
+        if (this.isSolving) return;
+        if (this.currentStage.elements.length === 0) {
+            alert("Please place some blocks first!");
+            return;
+        }
+
+        this.isSolving = true;
+        const run = ++this.solveRun;
+        const stage: ChunkDef = JSON.parse(JSON.stringify(this.currentStage));
+        this.solveResults = {};
+        this.clearedSpeeds = { '1.0': false, '2.0': false, '3.0': false };
+
+        for (const speed of CHECK_SPEEDS) {
+            this.updateChecklistUI(`Checking speed ${speed}...`);
+            const result = await solveStage(stage, DEFAULT_GAME_CONFIG, parseFloat(speed));
+            if (run !== this.solveRun) break; // Stage was edited mid-check
+
+            this.solveResults[speed] = result;
+            this.clearedSpeeds[speed] = result.solvable;
+        }
 
+        this.isSolving = false;
+        if (run === this.solveRun) {
+            this.saveDraft();
+            const failed = CHECK_SPEEDS.filter(speed => !this.clearedSpeeds[speed]);
+            this.updateChecklistUI(failed.length === 0
+                ? "Clearable at every speed!"
+                : `No way through at speed ${failed.join(', ')}. Red = where every attempt dies.`);
+        } else {
+            this.updateChecklistUI();
+        }
+    }
 
-        speeds.forEach(speed => {
+    // Any edit makes the previous check meaningless
+    private invalidateSolve() {
+        this.solveRun++;
+        this.solveResults = {};
+        this.clearedSpeeds = { '1.0': false, '2.0': false, '3.0': false };
+    }
+
+    private updateChecklistUI(status?: string) {
+        CHECK_SPEEDS.forEach(speed => {
             const el = document.getElementById(`check-${speed}`);
             if (el) {
                 if (this.clearedSpeeds[speed]) {
@@ -361,12 +517,30 @@ export class StageMaker {
             }
         });
 
+        const statusEl = document.getElementById('solve-status');
+        if (statusEl) {
+            statusEl.innerText = status ?? '';
+            statusEl.classList.toggle('hidden', !status);
+        }
+
+        const solveBtn = document.getElementById('solve-btn') as HTMLButtonElement;
+        if (solveBtn) {
+            solveBtn.disabled = this.isSolving;
+            solveBtn.classList.toggle('opacity-50', this.isSolving);
+        }
+
         const publishBtn = document.getElementById('publish-btn') as HTMLButtonElement;
         if (publishBtn) {
-            // Always enable publish button (relaxed requirement)
-            publishBtn.disabled = false;
-            publishBtn.classList.remove('bg-gray-400', 'text-gray-200', 'cursor-not-allowed');
-            publishBtn.classList.add('bg-purple-500', 'hover:bg-purple-600', 'text-white');
+            // Only publish stages the solver could clear at every speed
+            const canPublish = CHECK_SPEEDS.every(speed => this.clearedSpeeds[speed]);
+            publishBtn.disabled = !canPublish;
+            if (canPublish) {
+                publishBtn.classList.remove('bg-gray-400', 'text-gray-200', 'cursor-not-allowed');
+                publishBtn.classList.add('bg-purple-500', 'hover:bg-purple-600', 'text-white');
+            } else {
+                publishBtn.classList.remove('bg-purple-500', 'hover:bg-purple-600', 'text-white');
+                publishBtn.classList.add('bg-gray-400', 'text-gray-200', 'cursor-not-allowed');
+            }
         }
     }
 
@@ -377,9 +551,10 @@ export class StageMaker {
         }
 
         this.currentStage = stageData;
+        this.selectElement(null);
 
-        // Reset cleared speeds for the loaded stage (or could load from meta if we supported it)
-        this.clearedSpeeds = { '1.0': false, '2.0': false, '3.0': false };
+        // A loaded stage has to be checked again
+        this.invalidateSolve();
 
         // Update UI
         this.updateChecklistUI();
@@ -403,9 +578,10 @@ export class StageMaker {
             width: widthBlocks * this.BLOCK_SIZE, // Corrected: blocks * BLOCK_SIZE
             elements: []
         };
+        this.selectElement(null);
 
         // Reset cleared speeds on new stage
-        this.clearedSpeeds = { '1.0': false, '2.0': false, '3.0': false };
+        this.invalidateSolve();
         this.updateChecklistUI();
 
         // Hide setup, show inventory
@@ -454,32 +630,72 @@ export class StageMaker {
         // Shift+Click to Rotate
         if (e.shiftKey) {
             const existingEl = this.currentStage.elements.find(el => el.x === gridX && el.y === gridY);
-            if (existingEl) {
-                existingEl.rotation = ((existingEl.rotation || 0) + 90) % 360;
+            // One-way platforms only work facing up, and flip zones look the same every way round
+            if (existingEl && !isOneWay(existingEl) && triggerType(existingEl) !== 'gravity_flip') {
+                // Slopes are either way up, never on their side
+                existingEl.rotation = ((existingEl.rotation || 0) + (isSlope(existingEl) ? 180 : 90)) % 360;
+                this.invalidateSolve();
+                this.updateChecklistUI();
+                this.saveDraft();
+                this.draw();
+            }
+            return;
+        }
+
+        // Alt+Click to mirror a slope
+        if (e.altKey) {
+            const existingEl = this.currentStage.elements.find(el => el.x === gridX && el.y === gridY);
+            if (e.type === 'mousedown' && existingEl && isSlope(existingEl)) {
+                existingEl.mirror = !existingEl.mirror || undefined;
+                this.invalidateSolve();
+                this.updateChecklistUI();
                 this.saveDraft();
                 this.draw();
             }
             return;
         }
 
+        // Click a block, spring or item area to edit its settings (no dragging across cells)
+        if (this.selectedTool.type === 'inspect') {
+            if (e.type === 'mousedown') {
+                const editable = this.currentStage.elements.find(el =>
+                    (el.type === 'platform' || el.type === 'item_area' || triggerType(el) === 'spring') && el.x === gridX && el.y === gridY
+                );
+                this.selectElement(editable ?? null);
+                this.draw();
+            }
+            return;
+        }
+
+        const elementCount = this.currentStage.elements.length;
+
         if (this.selectedTool.type === 'eraser') {
             // Remove elements at this position
             this.currentStage.elements = this.currentStage.elements.filter(el => {
                 return !(el.x === gridX && el.y === gridY);
             });
+            if (this.selectedElement && !this.currentStage.elements.includes(this.selectedElement)) {
+                this.selectElement(null);
+            }
         } else if (this.selectedTool.type === 'platform') {
             // Check if occupied
             const occupied = this.currentStage.elements.some(el => el.x === gridX && el.y === gridY);
             if (!occupied) {
-                this.currentStage.elements.push({
+                const platform: ChunkElement = {
                     type: 'platform',
                     blockType: this.selectedTool.blockType as any,
                     x: gridX,
                     y: gridY,
                     width: this.BLOCK_SIZE,
                     height: this.BLOCK_SIZE,
-                    rotation: this.currentRotation
-                });
+                    rotation: this.selectedTool.blockType === 'oneway' ? 0 : this.currentRotation
+                };
+                if (isSlope(platform)) {
+                    // Upright or upside down, whichever is nearer
+                    platform.rotation = this.currentRotation % 180 === 0 ? this.currentRotation : this.currentRotation - 90;
+                    if (this.currentMirror) platform.mirror = true;
+                }
+                this.currentStage.elements.push(platform);
             }
         } else if (this.selectedTool.type === 'item_area') {
             // Check if occupied
@@ -519,6 +735,53 @@ export class StageMaker {
                     height: this.BLOCK_SIZE
                 });
             }
+        } else if (this.selectedTool.type === 'coin') {
+            // Check if occupied
+            const occupied = this.currentStage.elements.some(el => el.x === gridX && el.y === gridY);
+            if (!occupied) {
+                this.currentStage.elements.push({
+                    type: 'coin',
+                    x: gridX,
+                    y: gridY,
+                    width: this.BLOCK_SIZE,
+                    height: this.BLOCK_SIZE
+                });
+            }
+        } else if (this.selectedTool.type === 'enemy') {
+            // Check if occupied
+            const occupied = this.currentStage.elements.some(el => el.x === gridX && el.y === gridY);
+            const subtype = this.selectedTool.blockType;
+            if (!occupied && isEnemyType(subtype)) {
+                this.currentStage.elements.push({
+                    type: 'enemy',
+                    subtype,
+                    x: gridX,
+                    y: gridY,
+                    width: this.BLOCK_SIZE,
+                    height: this.BLOCK_SIZE
+                });
+            }
+        } else if (this.selectedTool.type === 'trigger') {
+            // Check if occupied
+            const occupied = this.currentStage.elements.some(el => el.x === gridX && el.y === gridY);
+            const subtype = this.selectedTool.blockType;
+            if (!occupied && isTriggerType(subtype)) {
+                this.currentStage.elements.push({
+                    type: 'trigger',
+                    subtype,
+                    x: gridX,
+                    y: gridY,
+                    width: this.BLOCK_SIZE,
+                    height: this.BLOCK_SIZE,
+                    rotation: subtype === 'gravity_flip' ? 0 : this.currentRotation
+                });
+            }
+        }
+
+        // Every tool either adds or removes, so a changed count means the stage changed
+        if (this.currentStage.elements.length !== elementCount) {
+            this.invalidateSolve();
+            this.updateChecklistUI();
         }
 
         this.saveDraft();
@@ -593,9 +856,26 @@ export class StageMaker {
             const centerY = el.y + el.height / 2;
             this.ctx.translate(centerX, centerY);
             this.ctx.rotate((el.rotation || 0) * Math.PI / 180);
+            if (el.mirror) this.ctx.scale(-1, 1);
             this.ctx.translate(-centerX, -centerY);
 
-            if (el.type === 'platform') {
+            if (isOneWay(el)) {
+                drawOneWayPlatform(this.ctx, el);
+            } else if (isCrumbling(el)) {
+                drawCrumblingBlock(this.ctx, el);
+            } else if (isBreakable(el)) {
+                drawBreakableBlock(this.ctx, el);
+                if (breakableDrop(el)) {
+                    // Show there's something inside
+                    this.ctx.fillStyle = 'white';
+                    this.ctx.font = 'bold 40px Arial';
+                    this.ctx.textAlign = 'center';
+                    this.ctx.fillText('?', el.x + el.width / 2, el.y + el.height / 2 + 14);
+                    this.ctx.textAlign = 'left';
+                }
+            } else if (isSlope(el)) {
+                drawSlope(this.ctx, el, this.soilImage);
+            } else if (el.type === 'platform') {
                 let img = this.soilImage;
                 if (el.blockType === 'grass') img = this.plantImage;
                 else if (el.blockType === 'stone') img = this.stoneImage;
@@ -611,9 +891,18 @@ export class StageMaker {
                 this.ctx.fillRect(el.x, el.y, el.width, el.height);
                 this.ctx.strokeStyle = 'red';
                 this.ctx.strokeRect(el.x, el.y, el.width, el.height);
+                const guaranteed = guaranteedDrop(el);
+                if (guaranteed && guaranteed !== 'coin') {
+                    // Faded guaranteed item behind the mark
+                    this.ctx.save();
+                    this.ctx.globalAlpha = 0.6;
+                    drawItem(this.ctx, { x: el.x + 25, y: el.y + 25, width: 50, height: 50 }, guaranteed);
+                    this.ctx.restore();
+                }
                 this.ctx.fillStyle = 'red';
                 this.ctx.font = '20px Arial';
-                this.ctx.fillText('?', el.x + 35, el.y + 55);
+                // '?' for the default odds, '?*' for the area's own
+                this.ctx.fillText(el.properties?.drops ? '?*' : '?', el.x + 35, el.y + 55);
             } else if (el.type === 'thorn') {
                 if (this.thornImage.complete) {
                     // Draw centered and smaller? Or just fill cell?
@@ -641,24 +930,45 @@ export class StageMaker {
                     this.ctx.fillRect(el.x + 25, el.y + 50, 50, 50);
                 }
             } else if (el.type === 'item') {
-                let img = this.onigiriImage;
-                if (el.subtype === 'icecream') img = this.icecreamImage;
-                else if (el.subtype === 'star') img = this.starImage;
-
-                if (img.complete) {
+                if (isItemType(el.subtype)) {
                     const size = 50;
                     const offset = (this.BLOCK_SIZE - size) / 2;
-                    this.ctx.drawImage(img, el.x + offset, el.y + offset, size, size);
-                } else {
-                    this.ctx.fillStyle = 'gold';
-                    this.ctx.beginPath();
-                    this.ctx.arc(el.x + 50, el.y + 50, 20, 0, Math.PI * 2);
-                    this.ctx.fill();
+                    drawItem(this.ctx, { x: el.x + offset, y: el.y + offset, width: size, height: size }, el.subtype);
                 }
+            } else if (el.type === 'coin') {
+                // Gold coin with a lighter face, 40px like in game
+                this.ctx.fillStyle = '#d69e2e'; // Yellow-600
+                this.ctx.beginPath();
+                this.ctx.arc(el.x + 50, el.y + 50, 20, 0, Math.PI * 2);
+                this.ctx.fill();
+                this.ctx.fillStyle = '#f6e05e'; // Yellow-400
+                this.ctx.beginPath();
+                this.ctx.arc(el.x + 50, el.y + 50, 14, 0, Math.PI * 2);
+                this.ctx.fill();
+            } else if (el.type === 'enemy') {
+                // Same size and spot as in game (see StageManager.addChunk)
+                const size = 70;
+                const box = { x: el.x + (this.BLOCK_SIZE - size) / 2, y: el.y + this.BLOCK_SIZE - size, width: size, height: size };
+
+                // Dashed outline of everywhere it will move to
+                const area = enemyMotionBounds(el, box);
+                this.ctx.save();
+                this.ctx.strokeStyle = 'rgba(229, 62, 62, 0.6)';
+                this.ctx.lineWidth = 2;
+                this.ctx.setLineDash([6, 6]);
+                this.ctx.strokeRect(area.x, area.y, area.width, area.height);
+                this.ctx.restore();
+
+                drawEnemy(this.ctx, el, box);
+            } else if (el.type === 'trigger') {
+                drawTrigger(this.ctx, el);
             }
             this.ctx.restore();
         });
 
+        this.drawPlatformPaths();
+        this.drawSolveResults();
+
         // Draw Start Line
         this.ctx.strokeStyle = 'green';
         this.ctx.lineWidth = 5;
@@ -677,6 +987,76 @@ export class StageMaker {
 
         this.ctx.restore();
     }
+
+    // Where each moving block travels, with a ghost riding along it at its real speed,
+    // and a highlight on the block being edited
+    private drawPlatformPaths() {
+        const PATH_SAMPLES = 48;
+        const now = performance.now() / FIXED_TIMESTEP;
+
+        this.currentStage.elements.forEach(el => {
+            const period = platformPeriod(el);
+            if (period > 0) {
+                const centerX = el.x + el.width / 2;
+                const centerY = el.y + el.height / 2;
+
+                this.ctx.save();
+                this.ctx.strokeStyle = 'rgba(214, 158, 46, 0.8)'; // Yellow-600
+                this.ctx.lineWidth = 3;
+                this.ctx.setLineDash([8, 6]);
+                this.ctx.beginPath();
+                for (let i = 0; i <= PATH_SAMPLES; i++) {
+                    const offset = platformOffset(el, period * i / PATH_SAMPLES);
+                    if (i === 0) this.ctx.moveTo(centerX + offset.x, centerY + offset.y);
+                    else this.ctx.lineTo(centerX + offset.x, centerY + offset.y);
+                }
+                this.ctx.stroke();
+
+                const ghost = platformOffset(el, now % period);
+                this.ctx.strokeRect(el.x + ghost.x, el.y + ghost.y, el.width, el.height);
+                this.ctx.restore();
+            }
+
+            if (el === this.selectedElement) {
+                this.ctx.save();
+                this.ctx.strokeStyle = '#facc15'; // Yellow-400
+                this.ctx.lineWidth = 6;
+                this.ctx.strokeRect(el.x, el.y, el.width, el.height);
+                this.ctx.restore();
+            }
+        });
+    }
+
+    // Winning paths as lines, and the cell where every attempt died as a red box
+    private drawSolveResults() {
+        CHECK_SPEEDS.forEach((speed, i) => {
+            const result = this.solveResults[speed];
+            if (!result) return;
+
+            if (result.solvable && result.path.length > 1) {
+                this.ctx.strokeStyle = PATH_COLORS[speed];
+                this.ctx.lineWidth = 4;
+                this.ctx.setLineDash([12, 8]);
+                this.ctx.beginPath();
+                this.ctx.moveTo(result.path[0][0], result.path[0][1]);
+                for (const [x, y] of result.path) {
+                    this.ctx.lineTo(x, y);
+                }
+                this.ctx.stroke();
+                this.ctx.setLineDash([]);
+            } else if (result.deathCell) {
+                const { x, y } = result.deathCell;
+                this.ctx.fillStyle = 'rgba(255, 0, 0, 0.35)';
+                this.ctx.fillRect(x, y, this.BLOCK_SIZE, this.BLOCK_SIZE);
+                this.ctx.strokeStyle = 'red';
+                this.ctx.lineWidth = 4;
+                this.ctx.strokeRect(x, y, this.BLOCK_SIZE, this.BLOCK_SIZE);
+                this.ctx.fillStyle = 'white';
+                this.ctx.font = 'bold 18px Arial';
+                this.ctx.fillText(`✕ ${speed}`, x + 8, y + 24 + i * 22);
+            }
+        });
+    }
 }
 
 // Global access for debugging
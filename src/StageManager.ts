@@ -1,19 +1,54 @@
-import type { ChunkDef, ChunkElement, GameConfig } from './types';
-import { API_BASE_URL, LOGICAL_HEIGHT } from './config';
+import type { BlockDrop, ChunkDef, ChunkElement, GameConfig, Rect, Vector2 } from './types';
+import { API_BASE_URL, FIXED_TIMESTEP, LOGICAL_HEIGHT } from './config';
+import { Random } from './Random';
+import { getImage } from './assets';
+import { rotatedBox } from './collision';
+import { drawEnemy, enemyOffset, enemyReach } from './enemies';
+import { drawTrigger } from './triggers';
+import { drawItem, dropTable, guaranteedDrop, isItemType, rollDrop } from './items';
+import { drawSlope, isSlope } from './slopes';
+import { ONE_WAY_THICKNESS, crumbleDelay, drawBreakableBlock, drawCrumblingBlock, drawOneWayPlatform, fallOffset, isBreakable, isCrumbling, isOneWay, platformOffset, platformPath, platformReach } from './platforms';
+
+const START_LENGTH = 2400; // The three flat chunks every run starts on
+const COLUMN_WIDTH = 200; // Width of the spatial index buckets, in world x
+const OFFSCREEN_MARGIN = 100; // Elements this far past the left edge are dropped
+
+// Flat chunk used when the server can't be reached, so the run never softlocks
+const FALLBACK_CHUNK: ChunkDef = {
+    id: 'fallback',
+    width: 800,
+    elements: [{ type: 'platform', x: 0, y: 0, width: 800, height: 200, blockType: 'grass' }]
+};
 
 export class StageManager {
+    // In the order they were added (= draw order). Removed elements stay in here, skipped,
+    // until enough pile up to be worth compacting, so removing one is O(1).
     private activeElements: ChunkElement[] = [];
-    private totalDistance: number = 0;
+    private removed = new Set<ChunkElement>();
+
+    // Broad phase: elements by the world x columns they cover, so collision only looks nearby
+    private columns = new Map<number, ChunkElement[]>();
+    private firstColumn: number = 0; // Columns left of this have been dropped
+
+    // Element objects no longer on screen, reused for new chunks instead of allocating
+    private pool: ChunkElement[] = [];
+
+    // Elements that move on their own (enemies, moving platforms, blocks that gave way): where each
+    // was placed (scrolling with the world), the tick it appeared, and how far it moved by itself in
+    // the last tick
+    private movers = new Map<ChunkElement, { x: number, y: number, tick: number, moved: Vector2, falling?: boolean }>();
 
-    private platformImage: HTMLImageElement;
-    private plantImage: HTMLImageElement;
-    private stoneImage: HTMLImageElement;
-    private soilImage: HTMLImageElement;
-    private flowerImage: HTMLImageElement;
-    private onigiriImage: HTMLImageElement;
-    private icecreamImage: HTMLImageElement;
-    private starImage: HTMLImageElement;
-    private thornImage: HTMLImageElement;
+    // Crumbling blocks that have been landed on, and the tick each gives way
+    private crumbling = new Map<ChunkElement, number>();
+    private collapsed: ChunkElement[] = []; // Blocks that gave way in the last tick
+    private crumbleCount: number = 0; // Blocks set crumbling this run
+
+    // Tracked as elements scroll so generation doesn't scan every element each tick
+    private lastAddedX: number | null = null; // Screen x of the most recently added element
+    private rightEdge: number = -Infinity; // Screen x of the rightmost element edge
+
+    private totalDistance: number = 0;
+    private lastMoveAmount: number = 0; // Scroll applied in the last tick, for render interpolation
 
     private readonly BLOCK_SIZE = 100;
     private lastChunkId: string | null = null;
@@ -21,44 +56,129 @@ export class StageManager {
 
     private chunkQueue: ChunkDef[] = [];
 
-    private testStage: ChunkDef | null = null;
-    private testStagePlaced: boolean = false;
-
-    constructor(_config: GameConfig) {
-        this.platformImage = new Image();
-        this.platformImage.src = 'assets/soil.png'; // Fallback
-        this.plantImage = new Image();
-        this.plantImage.src = 'assets/plant.png';
-        this.stoneImage = new Image();
-        this.stoneImage.src = 'assets/stone.png';
-        this.soilImage = new Image();
-        this.soilImage.src = 'assets/soil.png';
-        this.flowerImage = new Image();
-        this.flowerImage.src = 'assets/flower.png';
-        this.onigiriImage = new Image();
-        this.onigiriImage.src = 'assets/onigiri.png';
-        this.icecreamImage = new Image();
-        this.icecreamImage.src = 'assets/icecream.png';
-        this.starImage = new Image();
-        this.starImage.src = 'assets/star.png';
-        this.thornImage = new Image();
-        this.thornImage.src = 'assets/thorn.png';
+    // Seeded streams: chunk population and the seed sent with chunk requests
+    private random: Random;
+    private fetchRandom: Random;
 
+    // Fixed course (test mode / headless simulation) instead of server chunks
+    private fixedChunks: ChunkDef[] | null = null;
+    private fixedChunksPlaced: boolean = false;
+    private courseStart: number | null = null; // World x where the fixed chunks begin
+
+    // Replay: chunks are placed at the tick they were pulled in the recorded run instead of fetched
+    private replayChunks: Array<{ tick: number, chunk: ChunkDef }> | null = null;
+    private tickCount: number = 0;
+
+    // Called whenever a chunk is pulled from the queue (used for run recording)
+    public onChunkAdded: ((id: string) => void) | null = null;
+
+    private config: GameConfig;
+
+    constructor(config: GameConfig) {
+        this.config = config;
+        const random = new Random(Random.createSeed());
+        this.random = random.fork('stage');
+        this.fetchRandom = random.fork('fetch');
         this.reset();
     }
 
     public setTestStage(stage: ChunkDef) {
         console.log("StageManager: setTestStage called", stage);
-        this.testStage = stage;
+        this.setChunkSequence([stage]);
+    }
+
+    // Play a fixed list of chunks (after the flat start) instead of fetching, ending on a flat finish
+    public setChunkSequence(chunks: ChunkDef[]) {
+        this.fixedChunks = chunks;
+    }
+
+    // Convert a screen x to a position relative to the start of the fixed chunks (null until placed)
+    public toCourseX(screenX: number): number | null {
+        return this.courseStart === null ? null : screenX + this.totalDistance - this.courseStart;
+    }
+
+    // Independent copy for branching simulations (see Solver); the copy never fetches or records
+    public clone(): StageManager {
+        const copy: StageManager = Object.assign(Object.create(StageManager.prototype), this);
+        const copies = new Map(this.getElements().map(el => [el, { ...el }]));
+        copy.activeElements = [...copies.values()];
+        copy.removed = new Set();
+        copy.columns = new Map([...this.columns].map(([column, els]) => [column, els.flatMap(el => copies.get(el) ?? [])]));
+        copy.pool = [];
+        copy.movers = new Map();
+        for (const [el, mover] of this.movers) {
+            const elCopy = copies.get(el);
+            if (elCopy) copy.movers.set(elCopy, { ...mover, moved: { ...mover.moved } });
+        }
+        copy.crumbling = new Map([...this.crumbling].flatMap(([el, tick]) => {
+            const elCopy = copies.get(el);
+            return elCopy ? [[elCopy, tick] as [ChunkElement, number]] : [];
+        }));
+        copy.collapsed = [];
+        copy.chunkQueue = [...this.chunkQueue];
+        copy.replayChunks = this.replayChunks && [...this.replayChunks];
+        copy.random = this.random.clone();
+        copy.fetchRandom = this.fetchRandom.clone();
+        copy.onChunkAdded = null;
+        return copy;
+    }
+
+    // Distance at which a fixed sequence has been fully run through, null for endless runs
+    public getCourseLength(): number | null {
+        if (!this.fixedChunks) return null;
+        return START_LENGTH + this.fixedChunks.reduce((sum, chunk) => sum + chunk.width, 0);
+    }
+
+    public setReplayChunks(chunks: Array<{ tick: number, chunk: ChunkDef }>) {
+        this.replayChunks = [...chunks];
+    }
+
+    // Look up the definitions of recorded chunk ids, fetching each distinct id once
+    public async resolveChunks(entries: Array<[number, string]>): Promise<Array<{ tick: number, chunk: ChunkDef }>> {
+        const defs = new Map<string, ChunkDef>();
+        for (const [, id] of entries) {
+            if (defs.has(id)) continue;
+            if (id === FALLBACK_CHUNK.id) {
+                defs.set(id, FALLBACK_CHUNK);
+                continue;
+            }
+
+            const response = await fetch(`${API_BASE_URL}/stage/${encodeURIComponent(id)}`, {
+                headers: { 'ngrok-skip-browser-warning': 'true' }
+            });
+            if (!response.ok) throw new Error(`Failed to fetch stage ${id}`);
+            defs.set(id, await response.json());
+        }
+
+        return entries.map(([tick, id]) => ({ tick, chunk: defs.get(id)! }));
     }
 
-    public reset() {
+    public reset(random?: Random) {
+        if (random) {
+            this.random = random.fork('stage');
+            this.fetchRandom = random.fork('fetch');
+        }
+
         this.totalDistance = 0;
+        this.lastMoveAmount = 0;
+        this.pool.push(...this.activeElements);
         this.activeElements = [];
+        this.removed.clear();
+        this.columns.clear();
+        this.movers.clear();
+        this.crumbling.clear();
+        this.collapsed = [];
+        this.crumbleCount = 0;
+        this.firstColumn = 0;
+        this.lastAddedX = null;
+        this.rightEdge = -Infinity;
         this.lastChunkId = null;
         this.isFetching = false;
         this.chunkQueue = [];
-        this.testStagePlaced = false;
+        this.fixedChunksPlaced = false;
+        this.courseStart = null;
+        this.replayChunks = null;
+        this.tickCount = 0;
 
         // Initial platform - Always start with flat ground
         // Hardcode initial chunks to prevent race conditions/falling
@@ -68,42 +188,71 @@ export class StageManager {
             elements: [{ type: 'platform', x: 0, y: LOGICAL_HEIGHT - 200, width: 800, height: 200, blockType: 'grass' }]
         };
 
-        this.addChunk(flatChunk, 0);
-        this.addChunk(flatChunk, 800);
-        this.addChunk(flatChunk, 1600);
+        for (let x = 0; x < START_LENGTH; x += flatChunk.width) {
+            this.addChunk(flatChunk, x);
+        }
     }
 
     public update(dt: number, speedMultiplier: number, scrollSpeed: number) {
         const moveAmount = scrollSpeed * speedMultiplier * (dt / 16);
         this.totalDistance += moveAmount;
+        this.lastMoveAmount = moveAmount;
+
+        // Crumbling blocks whose time is up start to fall from where they are
+        this.collapsed = [];
+        for (const [el, tick] of this.crumbling) {
+            if (tick > this.tickCount) continue;
+            this.crumbling.delete(el);
+            this.movers.set(el, { x: el.x, y: el.y, tick: this.tickCount, moved: { x: 0, y: 0 }, falling: true });
+            this.collapsed.push(el);
+        }
 
         // Move elements
-        for (let i = this.activeElements.length - 1; i >= 0; i--) {
-            this.activeElements[i].x -= moveAmount;
+        for (const el of this.activeElements) {
+            el.x -= moveAmount;
+
+            const mover = this.movers.get(el);
+            if (mover) {
+                mover.x -= moveAmount;
+                const age = this.tickCount - mover.tick;
+                const offset = mover.falling ? fallOffset(age, this.config.gravity)
+                    : el.type === 'enemy' ? enemyOffset(el, age) : platformOffset(el, age);
+                mover.moved.x = mover.x + offset.x - el.x;
+                mover.moved.y = mover.y + offset.y - el.y;
+                el.x += mover.moved.x;
+                el.y += mover.moved.y;
+            }
 
-            // Remove off-screen elements
-            if (this.activeElements[i].x + this.activeElements[i].width < -100) {
-                this.activeElements.splice(i, 1);
+            // Remove off-screen elements (including blocks that fell out of the world)
+            if (el.x + el.width < -OFFSCREEN_MARGIN || el.y > LOGICAL_HEIGHT) {
+                this.removeElement(el);
             }
         }
+        if (this.lastAddedX !== null) this.lastAddedX -= moveAmount;
+        this.rightEdge -= moveAmount;
+
+        // Drop index columns that have scrolled fully off screen
+        const visibleColumn = Math.floor((this.totalDistance - OFFSCREEN_MARGIN) / COLUMN_WIDTH);
+        for (; this.firstColumn < visibleColumn; this.firstColumn++) {
+            this.columns.delete(this.firstColumn);
+        }
+        this.compact();
 
         // Generate new chunks
-        const lastElement = this.activeElements[this.activeElements.length - 1];
         // Generate well ahead of the screen (e.g., 2500px) to hide loading
-        if (!lastElement || lastElement.x < 2500) {
-            // Find the rightmost x position
-            let maxX = -Infinity;
-            this.activeElements.forEach(el => {
-                if (el.x + el.width > maxX) maxX = el.x + el.width;
-            });
-
+        if (this.lastAddedX === null || this.lastAddedX < 2500) {
             // If no elements, start at screen edge (shouldn't happen with proper init)
-            if (maxX === -Infinity) maxX = 800;
-
-            if (this.testStage && !this.testStagePlaced) {
-                // In test mode, place the custom stage once
-                this.addChunk(this.testStage, maxX);
-                this.testStagePlaced = true;
+            const maxX = this.removed.size < this.activeElements.length ? this.rightEdge : 800;
+
+            if (this.fixedChunks && !this.fixedChunksPlaced) {
+                // In test mode, place the custom stage(s) once
+                let x = maxX;
+                this.courseStart = maxX + this.totalDistance;
+                for (const chunk of this.fixedChunks) {
+                    this.addChunk(structuredClone(chunk), x);
+                    x += chunk.width;
+                }
+                this.fixedChunksPlaced = true;
 
                 // Add a finish line or end marker? 
                 // For now, we just stop generating or add a flat end.
@@ -112,27 +261,39 @@ export class StageManager {
                     id: 'finish',
                     width: 800,
                     elements: [{ type: 'platform', x: 0, y: LOGICAL_HEIGHT, width: 800, height: 100, blockType: 'grass' }] // Invisible or low platform
-                }, maxX + this.testStage.width);
-
-            } else if (!this.testStage) {
+                }, x);
+
+            } else if (this.replayChunks) {
+                // Replay: wait until the tick the recorded run pulled its next chunk
+                const next = this.replayChunks[0];
+                if (next && next.tick <= this.tickCount) {
+                    this.replayChunks.shift();
+                    this.addChunk(structuredClone(next.chunk), maxX);
+                    this.lastChunkId = next.chunk.id;
+                }
+            } else if (!this.fixedChunks) {
                 // Normal infinite generation
+                // Chunks are only ever added here, during a tick, so a run can be replayed exactly
                 if (this.chunkQueue.length > 0) {
                     const chunk = this.chunkQueue.shift()!;
                     this.addChunk(chunk, maxX);
                     if (chunk.id) this.lastChunkId = chunk.id;
+                    this.onChunkAdded?.(chunk.id);
                 } else if (!this.isFetching) {
-                    this.fetchAndAddChunk(maxX);
+                    this.fetchChunks();
                 }
             }
         }
+
+        this.tickCount++;
     }
 
-    private async fetchAndAddChunk(startX: number, isStart: boolean = false) {
+    private async fetchChunks(isStart: boolean = false) {
         if (this.isFetching && !isStart) return;
         this.isFetching = true;
 
         try {
-            let url = isStart ? `${API_BASE_URL}/stage/start` : `${API_BASE_URL}/stage/random?count=20`;
+            let url = isStart ? `${API_BASE_URL}/stage/start` : `${API_BASE_URL}/stage/random?count=20&seed=${this.fetchRandom.int(0x7fffffff)}`;
             if (!isStart && this.lastChunkId) {
                 url += `&exclude_id=${this.lastChunkId}`;
             }
@@ -144,26 +305,15 @@ export class StageManager {
 
             if (isStart) {
                 const chunk: ChunkDef = await response.json();
-                if (chunk.id) this.lastChunkId = chunk.id;
-                this.addChunk(chunk, startX);
+                this.chunkQueue.push(chunk);
             } else {
                 const chunks: ChunkDef[] = await response.json();
                 this.chunkQueue.push(...chunks);
-                // Add the first one immediately if needed
-                if (this.chunkQueue.length > 0) {
-                    const chunk = this.chunkQueue.shift()!;
-                    if (chunk.id) this.lastChunkId = chunk.id;
-                    this.addChunk(chunk, startX);
-                }
             }
         } catch (error) {
             console.error("Error fetching chunk:", error);
-            // Fallback: Add a flat chunk if fetch fails to prevent softlock
-            this.addChunk({
-                id: 'fallback',
-                width: 800,
-                elements: [{ type: 'platform', x: 0, y: 0, width: 800, height: 200, blockType: 'grass' }]
-            }, startX);
+            // Fallback: Queue a flat chunk if fetch fails to prevent softlock
+            this.chunkQueue.push(structuredClone(FALLBACK_CHUNK));
         } finally {
             this.isFetching = false;
         }
@@ -178,7 +328,6 @@ export class StageManager {
             if (el.type === 'platform') {
                 // Check if it's a custom stage (absolute coordinates)
                 if (chunk.id && chunk.id.startsWith('custom_')) {
-                    console.log(`Using absolute Y for custom element: ${el.y}`);
                     adjustedY = el.y;
                 } else {
                     // Standard generation (grounded)
@@ -231,28 +380,54 @@ export class StageManager {
                     finalHeight = size;
                     finalX += (this.BLOCK_SIZE - size) / 2;
                     finalY += (this.BLOCK_SIZE - size) / 2;
+                } else if (el.type === 'coin') {
+                    // Resize to 40x40 and place at center
+                    const size = 40;
+                    finalWidth = size;
+                    finalHeight = size;
+                    finalX += (this.BLOCK_SIZE - size) / 2;
+                    finalY += (this.BLOCK_SIZE - size) / 2;
+                } else if (el.type === 'enemy') {
+                    // Resize to 70x70, centred and standing on the bottom of the cell
+                    const size = 70;
+                    finalWidth = size;
+                    finalHeight = size;
+                    finalX += (this.BLOCK_SIZE - size) / 2;
+                    finalY += this.BLOCK_SIZE - size;
+                } else if (isOneWay(el)) {
+                    // A thin plank along the top of the cell
+                    finalHeight = ONE_WAY_THICKNESS;
                 }
 
-                this.activeElements.push({
+                const added = this.addElement({
                     ...el,
                     x: finalX,
                     y: finalY,
                     width: finalWidth,
                     height: finalHeight
                 });
+                if (added.type === 'enemy' || platformPath(added)) {
+                    this.movers.set(added, { x: added.x, y: added.y, tick: this.tickCount, moved: { x: 0, y: 0 } });
+
+                    // Start wherever its phase puts it
+                    const start = added.type === 'enemy' ? enemyOffset(added, 0) : platformOffset(added, 0);
+                    added.x += start.x;
+                    added.y += start.y;
+                }
             }
 
-            // Add decorations relative to the new Y
-            if (el.type === 'platform') {
-                const numDecorations = Math.floor(Math.random() * 3);
+            // Add decorations relative to the new Y (not on blocks that move, fall or break, as
+            // they'd be left floating, nor on slopes, whose surface isn't the top of the cell)
+            if (el.type === 'platform' && !platformPath(el) && !isCrumbling(el) && !isBreakable(el) && !isSlope(el)) {
+                const numDecorations = this.random.int(3);
                 for (let i = 0; i < numDecorations; i++) {
                     const decoWidth = 50;
                     const decoHeight = 50;
                     if (el.width > decoWidth) {
-                        const decoX = startX + el.x + Math.random() * (el.width - decoWidth);
+                        const decoX = startX + el.x + this.random.next() * (el.width - decoWidth);
                         const decoY = adjustedY - decoHeight + 10;
 
-                        this.activeElements.push({
+                        this.addElement({
                             type: 'decoration',
                             subtype: 'flower',
                             x: decoX,
@@ -264,36 +439,29 @@ export class StageManager {
                 }
             }
 
-            // Handle Item Areas
+            // Handle Item Areas: each cell rolls the area's drop table, except one cell that
+            // holds the area's guaranteed item if it has one
             if (el.type === 'item_area') {
                 const cols = Math.ceil(el.width / this.BLOCK_SIZE);
                 const rows = Math.ceil(el.height / this.BLOCK_SIZE);
+                const table = dropTable(el, this.config);
+                const guaranteed = guaranteedDrop(el);
+                const guaranteedCell = guaranteed ? this.random.int(cols * rows) : -1;
 
                 for (let r = 0; r < rows; r++) {
                     for (let c = 0; c < cols; c++) {
                         const bx = startX + el.x + c * this.BLOCK_SIZE;
                         const by = adjustedY + r * this.BLOCK_SIZE;
-
-                        // Random generation
-                        const rand = Math.random();
-                        let itemType: 'onigiri' | 'icecream' | 'star' | null = null;
-
-                        if (rand < 0.01) {
-                            itemType = 'star'; // 1%
-                        } else if (rand < 0.02) { // 0.01 + 0.02
-                            itemType = 'onigiri'; // 2%
-                        } else if (rand < 0.22) { // 0.02 + 0.20
-                            itemType = 'icecream'; // 20%
-                        }
+                        const itemType = r * cols + c === guaranteedCell ? guaranteed : rollDrop(table, this.random);
 
                         if (itemType) {
                             // Center item in block
-                            const itemSize = 50;
+                            const itemSize = itemType === 'coin' ? 40 : 50;
                             const offset = (this.BLOCK_SIZE - itemSize) / 2;
 
-                            this.activeElements.push({
-                                type: 'item',
-                                subtype: itemType,
+                            this.addElement({
+                                type: itemType === 'coin' ? 'coin' : 'item',
+                                subtype: itemType === 'coin' ? undefined : itemType,
                                 x: bx + offset,
                                 y: by + offset,
                                 width: itemSize,
@@ -306,17 +474,163 @@ export class StageManager {
         });
     }
 
-    public draw(ctx: CanvasRenderingContext2D) {
+    // Place an element (screen coordinates), reusing a pooled object if there is one
+    private addElement(props: ChunkElement): ChunkElement {
+        const el: ChunkElement = this.pool.pop() ?? { type: 'decoration', x: 0, y: 0, width: 0, height: 0 };
+        // Every field is written so nothing carries over from the element's previous life
+        el.type = props.type;
+        el.subtype = props.subtype;
+        el.blockType = props.blockType;
+        el.rotation = props.rotation;
+        el.mirror = props.mirror;
+        el.properties = props.properties;
+        el.x = props.x;
+        el.y = props.y;
+        el.width = props.width;
+        el.height = props.height;
+        this.activeElements.push(el);
+
+        const [first, last] = this.columnRange(el);
+        this.indexColumns(el, first, last);
+
+        this.lastAddedX = el.x;
+        this.rightEdge = Math.max(this.rightEdge, el.x + el.width);
+        return el;
+    }
+
+    // Index columns an element belongs in: the ones it covers as drawn, which a rotation can change,
+    // and everywhere a patrolling enemy or moving platform can get to
+    private columnRange(el: ChunkElement): [number, number] {
+        const bounds = rotatedBox(el);
+        const reachLeft = el.type === 'enemy' ? enemyReach(el) : 0;
+        const reachRight = el.type === 'platform' ? platformReach(el) : 0;
+        const worldX = bounds.x - reachLeft + this.totalDistance;
+        const last = Math.floor((worldX + reachLeft + bounds.width + reachRight) / COLUMN_WIDTH);
+        return [Math.max(Math.floor(worldX / COLUMN_WIDTH), this.firstColumn), last];
+    }
+
+    // Move an element by hand (e.g. an item pulled by a magnet), re-indexing it if it crosses into
+    // other columns so it's still found where it ends up
+    public moveElement(el: ChunkElement, dx: number, dy: number) {
+        const [oldFirst, oldLast] = this.columnRange(el);
+        el.x += dx;
+        el.y += dy;
+        const [first, last] = this.columnRange(el);
+        if (first === oldFirst && last === oldLast) return;
+
+        for (let column = oldFirst; column <= oldLast; column++) {
+            const bucket = this.columns.get(column);
+            if (bucket) this.columns.set(column, bucket.filter(other => other !== el));
+        }
+        this.indexColumns(el, first, last);
+    }
+
+    private indexColumns(el: ChunkElement, first: number, last: number) {
+        for (let column = first; column <= last; column++) {
+            let bucket = this.columns.get(column);
+            if (!bucket) {
+                bucket = [];
+                this.columns.set(column, bucket);
+            }
+            bucket.push(el);
+        }
+    }
+
+    // Take an element out of play (e.g. a collected item)
+    public removeElement(el: ChunkElement) {
+        this.removed.add(el);
+    }
+
+    // A crumbling block was landed on: it gives way after its delay (once; landing again doesn't reset it)
+    public startCrumbling(el: ChunkElement) {
+        if (!isCrumbling(el) || this.crumbling.has(el) || this.movers.get(el)?.falling) return;
+        const delayTicks = Math.max(1, Math.round(crumbleDelay(el, this.config) / FIXED_TIMESTEP));
+        this.crumbling.set(el, this.tickCount + delayTicks);
+        this.crumbleCount++;
+    }
+
+    // Blocks that started falling in the last tick
+    public getCollapsed(): ChunkElement[] {
+        return this.collapsed;
+    }
+
+    public getCrumbleCount(): number {
+        return this.crumbleCount;
+    }
+
+    // Put an item or coin in the middle of a box (e.g. where a broken block was), sized like placed ones
+    public spawnDrop(drop: BlockDrop, box: Rect) {
+        const size = drop === 'coin' ? 40 : 50;
+        const lastAddedX = this.lastAddedX; // Not the end of the stage, so it mustn't move generation
+        this.addElement({
+            type: drop === 'coin' ? 'coin' : 'item',
+            subtype: drop === 'coin' ? undefined : drop,
+            x: box.x + (box.width - size) / 2,
+            y: box.y + (box.height - size) / 2,
+            width: size,
+            height: size
+        });
+        this.lastAddedX = lastAddedX;
+    }
+
+    // Actually drop removed elements once they make up a good part of the list
+    private compact() {
+        if (this.removed.size === 0 || this.removed.size * 4 < this.activeElements.length) return;
+
+        this.activeElements = this.activeElements.filter(el => !this.removed.has(el));
+        for (const [column, els] of this.columns) {
+            this.columns.set(column, els.filter(el => !this.removed.has(el)));
+        }
+        // Items removed mid-tick may still be looked at this tick, so only off-screen ones are reused
+        for (const el of this.removed) {
+            this.movers.delete(el);
+            this.crumbling.delete(el);
+            if (el.x + el.width < -OFFSCREEN_MARGIN) this.pool.push(el);
+        }
+        this.removed.clear();
+    }
+
+    // Elements overlapping a screen x range, in the order they were added
+    public getElementsNear(x: number, width: number): ChunkElement[] {
+        const first = Math.max(Math.floor((x + this.totalDistance) / COLUMN_WIDTH), this.firstColumn);
+        const last = Math.floor((x + width + this.totalDistance) / COLUMN_WIDTH);
+
+        const found: ChunkElement[] = [];
+        for (let column = first; column <= last; column++) {
+            for (const el of this.columns.get(column) ?? []) {
+                if (!this.removed.has(el) && !found.includes(el)) found.push(el);
+            }
+        }
+        return found;
+    }
+
+    public draw(ctx: CanvasRenderingContext2D, alpha: number = 1) {
+        // Elements already moved this tick; shift them back by the part of the tick not yet shown
+        ctx.save();
+        ctx.translate(this.lastMoveAmount * (1 - alpha), 0);
+
         this.activeElements.forEach(el => {
+            if (this.removed.has(el)) return;
             ctx.save();
+            // Crumbling blocks shake until they give way
+            if (this.crumbling.has(el)) ctx.translate(Math.sin(this.tickCount * 1.7) * 3, 0);
             // Translate to center of block for rotation
             const centerX = el.x + el.width / 2;
             const centerY = el.y + el.height / 2;
             ctx.translate(centerX, centerY);
             ctx.rotate((el.rotation || 0) * Math.PI / 180);
+            if (el.mirror) ctx.scale(-1, 1);
             ctx.translate(-centerX, -centerY);
 
-            if (el.type === 'platform') {
+            if (isOneWay(el)) {
+                drawOneWayPlatform(ctx, el);
+            } else if (isCrumbling(el)) {
+                drawCrumblingBlock(ctx, el);
+            } else if (isBreakable(el)) {
+                drawBreakableBlock(ctx, el);
+            } else if (isSlope(el)) {
+                drawSlope(ctx, el, getImage('assets/soil.png'));
+            } else if (el.type === 'platform') {
                 const blockType = el.blockType || 'grass';
 
                 // Draw blocks
@@ -334,11 +648,11 @@ export class StageManager {
 
                         if (bWidth <= 0 || bHeight <= 0) continue;
 
-                        let img = this.soilImage;
+                        let img = getImage('assets/soil.png');
                         if (blockType === 'grass' && r === 0) {
-                            img = this.plantImage;
+                            img = getImage('assets/plant.png');
                         } else if (blockType === 'stone') {
-                            img = this.stoneImage;
+                            img = getImage('assets/stone.png');
                         }
 
                         if (img.complete) {
@@ -350,24 +664,34 @@ export class StageManager {
                     }
                 }
             } else if (el.type === 'decoration') {
-                let img = this.stoneImage;
-                if (el.subtype === 'plant') img = this.plantImage;
-                else if (el.subtype === 'flower') img = this.flowerImage;
+                let img = getImage('assets/stone.png');
+                if (el.subtype === 'plant') img = getImage('assets/plant.png');
+                else if (el.subtype === 'flower') img = getImage('assets/flower.png');
 
                 if (img.complete) {
                     ctx.drawImage(img, el.x, el.y, el.width, el.height);
                 }
             } else if (el.type === 'item') {
-                let img = this.onigiriImage;
-                if (el.subtype === 'icecream') img = this.icecreamImage;
-                else if (el.subtype === 'star') img = this.starImage;
-
-                if (img.complete) {
-                    ctx.drawImage(img, el.x, el.y, el.width, el.height);
-                }
+                if (isItemType(el.subtype)) drawItem(ctx, el, el.subtype);
+            } else if (el.type === 'coin') {
+                // Gold coin with a lighter face
+                const radius = el.width / 2;
+                ctx.fillStyle = '#d69e2e'; // Yellow-600
+                ctx.beginPath();
+                ctx.arc(el.x + radius, el.y + radius, radius, 0, Math.PI * 2);
+                ctx.fill();
+                ctx.fillStyle = '#f6e05e'; // Yellow-400
+                ctx.beginPath();
+                ctx.arc(el.x + radius, el.y + radius, radius * 0.7, 0, Math.PI * 2);
+                ctx.fill();
+            } else if (el.type === 'enemy') {
+                drawEnemy(ctx, el);
+            } else if (el.type === 'trigger') {
+                drawTrigger(ctx, el);
             } else if (el.type === 'thorn') {
-                if (this.thornImage.complete) {
-                    ctx.drawImage(this.thornImage, el.x, el.y, el.width, el.height);
+                const thornImage = getImage('assets/thorn.png');
+                if (thornImage.complete) {
+                    ctx.drawImage(thornImage, el.x, el.y, el.width, el.height);
                 } else {
                     ctx.fillStyle = 'purple';
                     ctx.fillRect(el.x, el.y, el.width, el.height);
@@ -375,13 +699,34 @@ export class StageManager {
             }
             ctx.restore();
         });
+
+        ctx.restore();
     }
 
     public getElements() {
-        return this.activeElements;
+        return this.activeElements.filter(el => !this.removed.has(el));
+    }
+
+    public getElementCount() {
+        return this.activeElements.length - this.removed.size;
     }
 
     public getTotalDistance() {
         return this.totalDistance;
     }
+
+    // How far an element moved by itself in the last tick, on top of scrolling (null if it doesn't move)
+    public getOwnMotion(el: ChunkElement): Vector2 | null {
+        return this.movers.get(el)?.moved ?? null;
+    }
+
+    // How far the world scrolled in the last tick
+    public getLastMoveAmount() {
+        return this.lastMoveAmount;
+    }
+
+    // Distance as currently drawn (see draw's interpolation)
+    public getInterpolatedDistance(alpha: number) {
+        return this.totalDistance - this.lastMoveAmount * (1 - alpha);
+    }
 }
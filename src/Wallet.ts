@@ -0,0 +1,26 @@
+const WALLET_STORAGE_KEY = 'coinWallet';
+
+// Coins banked across runs, kept in localStorage
+export class CoinWallet {
+    private total: number;
+
+    constructor() {
+        this.total = this.load();
+    }
+
+    public getTotal(): number {
+        return this.total;
+    }
+
+    // Bank the coins from a finished run
+    public add(coins: number) {
+        if (coins <= 0) return;
+        this.total += coins;
+        localStorage.setItem(WALLET_STORAGE_KEY, this.total.toString());
+    }
+
+    private load(): number {
+        const saved = parseInt(localStorage.getItem(WALLET_STORAGE_KEY) ?? '', 10);
+        return Number.isFinite(saved) && saved > 0 ? saved : 0;
+    }
+}
@@ -0,0 +1,13 @@
+// Shared image cache. Images are created on first draw, so game logic never touches the DOM
+// and can run headless (see Simulation).
+const images = new Map<string, HTMLImageElement>();
+
+export function getImage(src: string): HTMLImageElement {
+    let img = images.get(src);
+    if (!img) {
+        img = new Image();
+        img.src = src;
+        images.set(src, img);
+    }
+    return img;
+}
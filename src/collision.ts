@@ -0,0 +1,75 @@
+import type { ChunkElement, Rect, Vector2 } from './types';
+
+export interface SweepHit {
+    time: number; // 0-1, fraction of the motion before contact
+    normal: Vector2; // Surface normal of the target at the contact, e.g. (0, -1) for its top
+}
+
+// Overlap test where merely touching edges don't count
+export function overlaps(a: Rect, b: Rect): boolean {
+    return a.x < b.x + b.width && a.x + a.width > b.x && a.y < b.y + b.height && a.y + a.height > b.y;
+}
+
+// Box covering part of an element (given as if unrotated, relative to its top-left, default the
+// whole element) once it's rotated about its centre the way it's drawn. Rotations are in steps
+// of 90° so the result is still an exact box.
+export function rotatedBox(el: ChunkElement, part: Rect = { x: 0, y: 0, width: el.width, height: el.height }): Rect {
+    const turns = ((Math.round((el.rotation || 0) / 90) % 4) + 4) % 4;
+    if (turns === 0) return { x: el.x + part.x, y: el.y + part.y, width: part.width, height: part.height };
+
+    const rad = turns * Math.PI / 2;
+    const cos = Math.round(Math.cos(rad));
+    const sin = Math.round(Math.sin(rad));
+    const centerX = el.x + el.width / 2;
+    const centerY = el.y + el.height / 2;
+
+    // Opposite corners of the part relative to the centre, rotated like ctx.rotate does
+    const corners = [[part.x, part.y], [part.x + part.width, part.y + part.height]].map(([x, y]) => {
+        const dx = el.x + x - centerX;
+        const dy = el.y + y - centerY;
+        return [centerX + dx * cos - dy * sin, centerY + dx * sin + dy * cos];
+    });
+    const x = Math.min(corners[0][0], corners[1][0]);
+    const y = Math.min(corners[0][1], corners[1][1]);
+    return { x, y, width: Math.abs(corners[1][0] - corners[0][0]), height: Math.abs(corners[1][1] - corners[0][1]) };
+}
+
+// Axis that pushes an overlapping box out of the target the shortest way
+function pushOutNormal(box: Rect, target: Rect): Vector2 {
+    const pushes: Array<[number, Vector2]> = [
+        [box.y + box.height - target.y, { x: 0, y: -1 }], // Out through the top
+        [target.y + target.height - box.y, { x: 0, y: 1 }], // Out through the bottom
+        [box.x + box.width - target.x, { x: -1, y: 0 }], // Out through the left
+        [target.x + target.width - box.x, { x: 1, y: 0 }] // Out through the right
+    ];
+    return pushes.reduce((best, push) => push[0] < best[0] ? push : best)[1];
+}
+
+// When (if at all) a box moving by delta first touches a static target.
+// A box that already overlaps the target hits it at time 0, pushed out the shortest way.
+export function sweep(box: Rect, delta: Vector2, target: Rect): SweepHit | null {
+    if (overlaps(box, target)) {
+        return { time: 0, normal: pushOutNormal(box, target) };
+    }
+
+    // Times at which the box starts and stops overlapping the target on each axis
+    const axis = (pos: number, size: number, d: number, targetPos: number, targetSize: number): [number, number] => {
+        if (d > 0) return [(targetPos - (pos + size)) / d, (targetPos + targetSize - pos) / d];
+        if (d < 0) return [(targetPos + targetSize - pos) / d, (targetPos - (pos + size)) / d];
+        // Not moving on this axis: either always overlapping or never
+        return pos + size > targetPos && pos < targetPos + targetSize ? [-Infinity, Infinity] : [Infinity, -Infinity];
+    };
+
+    const [xEntry, xExit] = axis(box.x, box.width, delta.x, target.x, target.width);
+    const [yEntry, yExit] = axis(box.y, box.height, delta.y, target.y, target.height);
+
+    const entry = Math.max(xEntry, yEntry);
+    const exit = Math.min(xExit, yExit);
+    if (entry >= exit || entry < 0 || entry >= 1) return null;
+
+    // The axis that started overlapping last is the face we hit; exact corners count as the top/bottom
+    const normal = xEntry > yEntry
+        ? { x: delta.x > 0 ? -1 : 1, y: 0 }
+        : { x: 0, y: delta.y > 0 ? -1 : 1 };
+    return { time: entry, normal };
+}
@@ -1,3 +1,40 @@
+import type { GameConfig } from './types';
+
 export const API_BASE_URL = 'https://tentiest-shakira-fleeringly.ngrok-free.dev';
 export const LOGICAL_HEIGHT = 800; // 8 blocks * 100px
 export const LOGICAL_WIDTH = 1422; // 16:9 aspect ratio (800 * 16 / 9)
+export const FIXED_TIMESTEP = 1000 / 60; // Simulation tick length in ms (60 ticks per second)
+export const MAX_TICKS_PER_FRAME = 5; // Frames slower than this drop time instead of spiralling
+export const RESUME_COUNTDOWN = 3000; // ms of 3-2-1 before play continues after a pause
+
+// Balance numbers, tuned for FIXED_TIMESTEP ticks (Game copies these so test mode can tweak them)
+export const DEFAULT_GAME_CONFIG: GameConfig = {
+    gravity: 0.6, // Reasonable gravity
+    jumpForce: -15, // Jump force
+    baseSpeed: 6, // Base speed
+    speedIncreaseRate: 0.1, // Slower speed increase
+    minJumpVelocity: -5, // A tap still clears about half a block
+    jumpHoldWindow: 200, // Holding longer than this always gives the full jump
+    jumpReleaseCutoff: 0.4,
+    coyoteTime: 100, // ~6 ticks, enough for a late press at 3x speed
+    jumpBufferTime: 100,
+    stepUpHeight: 35, // Matches the old 22px + 10px-into-the-wall allowance, which stages were built around
+    headClipHeight: 30,
+    stompBounce: -10,
+    stompScore: 200,
+    coinScore: 50,
+    nearMissScore: 100,
+    nearMissGap: 30,
+    airChainScore: 100,
+    starBonus: 200,
+    comboStep: 0.1,
+    comboMax: 3,
+    comboHold: 1500,
+    comboDecay: 1,
+    springLaunch: 22, // About twice a jump's height
+    boostPadFactor: 1.5,
+    slowPadFactor: 0.6,
+    speedPadDuration: 3000,
+    crumbleDelay: 500,
+    itemDropTable: { star: 1, onigiri: 1, icecream: 20, coin: 25, none: 53 } // Percent
+};
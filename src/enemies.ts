@@ -0,0 +1,113 @@
+import { FIXED_TIMESTEP } from './config';
+import type { ChunkElement, EnemyType, Rect, Vector2 } from './types';
+
+const BLOCK_SIZE = 100;
+
+// Tuning for each behaviour. A stage can override any of these per enemy through its properties,
+// e.g. { "range": 4 } for a walker that patrols further.
+export const ENEMY_DEFAULTS: Record<EnemyType, Record<string, number>> = {
+    walker: { range: 2, speed: 2 }, // Patrols `range` blocks back and forth at `speed` px per tick
+    hopper: { interval: 1500, hopHeight: 150, hopTime: 600 }, // A hop of hopHeight px every interval ms
+    flyer: { amplitude: 100, period: 2000 } // Bobs amplitude px up and down, once every period ms
+};
+
+const ENEMY_COLORS: Record<EnemyType, string> = {
+    walker: '#e53e3e', // Red-600
+    hopper: '#38a169', // Green-600
+    flyer: '#805ad5' // Purple-600
+};
+
+export function isEnemyType(value: unknown): value is EnemyType {
+    return typeof value === 'string' && value in ENEMY_DEFAULTS;
+}
+
+export function enemyType(el: ChunkElement): EnemyType {
+    return el.subtype === 'hopper' || el.subtype === 'flyer' ? el.subtype : 'walker';
+}
+
+function enemyProperty(el: ChunkElement, name: string): number {
+    const value = el.properties?.[name];
+    return typeof value === 'number' ? value : ENEMY_DEFAULTS[enemyType(el)][name];
+}
+
+// Where an enemy is relative to where it was placed, `age` ticks after it appeared.
+// Worked out from the age alone, so enemies need no state of their own to move deterministically.
+export function enemyOffset(el: ChunkElement, age: number): Vector2 {
+    const type = enemyType(el);
+    if (type === 'walker') {
+        // Walk towards the player, then back, and so on
+        const range = enemyProperty(el, 'range') * BLOCK_SIZE;
+        if (range <= 0) return { x: 0, y: 0 };
+        const walked = (age * enemyProperty(el, 'speed')) % (range * 2);
+        return { x: -(walked <= range ? walked : range * 2 - walked), y: 0 };
+    } else if (type === 'hopper') {
+        const hopTime = enemyProperty(el, 'hopTime');
+        const progress = ((age * FIXED_TIMESTEP) % enemyProperty(el, 'interval')) / hopTime;
+        return { x: 0, y: progress < 1 ? -4 * enemyProperty(el, 'hopHeight') * progress * (1 - progress) : 0 };
+    }
+
+    const phase = (age * FIXED_TIMESTEP) / enemyProperty(el, 'period') * Math.PI * 2;
+    return { x: 0, y: -enemyProperty(el, 'amplitude') * Math.sin(phase) };
+}
+
+// How far left of its placed position an enemy can get (for the spatial index)
+export function enemyReach(el: ChunkElement): number {
+    return enemyType(el) === 'walker' ? Math.max(0, enemyProperty(el, 'range') * BLOCK_SIZE) : 0;
+}
+
+// Area an enemy placed at `box` covers as it moves, sampled over its first ten seconds
+// (for showing authors where it will go)
+export function enemyMotionBounds(el: ChunkElement, box: Rect): Rect {
+    let minX = 0, maxX = 0, minY = 0, maxY = 0;
+    for (let age = 0; age < 600; age += 3) {
+        const offset = enemyOffset(el, age);
+        minX = Math.min(minX, offset.x);
+        maxX = Math.max(maxX, offset.x);
+        minY = Math.min(minY, offset.y);
+        maxY = Math.max(maxY, offset.y);
+    }
+    return { x: box.x + minX, y: box.y + minY, width: box.width + maxX - minX, height: box.height + maxY - minY };
+}
+
+// Round body with eyes watching the player, plus feet or wings depending on the behaviour
+export function drawEnemy(ctx: CanvasRenderingContext2D, el: ChunkElement, box: Rect = el) {
+    const type = enemyType(el);
+    const centerX = box.x + box.width / 2;
+    const centerY = box.y + box.height / 2;
+
+    ctx.save();
+    ctx.strokeStyle = 'black';
+    ctx.lineWidth = 3;
+
+    if (type === 'flyer') {
+        ctx.fillStyle = 'white';
+        for (const side of [-1, 1]) {
+            ctx.beginPath();
+            ctx.ellipse(centerX + side * box.width * 0.45, centerY - box.height * 0.15, box.width * 0.25, box.height * 0.15, side * -0.5, 0, Math.PI * 2);
+            ctx.fill();
+            ctx.stroke();
+        }
+    } else if (type === 'walker') {
+        ctx.fillStyle = 'black';
+        ctx.fillRect(box.x + box.width * 0.2, box.y + box.height * 0.85, box.width * 0.2, box.height * 0.15);
+        ctx.fillRect(box.x + box.width * 0.6, box.y + box.height * 0.85, box.width * 0.2, box.height * 0.15);
+    }
+
+    ctx.fillStyle = ENEMY_COLORS[type];
+    ctx.beginPath();
+    ctx.ellipse(centerX, centerY, box.width / 2, box.height * (type === 'walker' ? 0.45 : 0.5), 0, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+
+    for (const side of [-1, 1]) {
+        ctx.fillStyle = 'white';
+        ctx.beginPath();
+        ctx.arc(centerX + side * box.width * 0.18, centerY - box.height * 0.1, box.width * 0.12, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.fillStyle = 'black';
+        ctx.beginPath();
+        ctx.arc(centerX + side * box.width * 0.18 - box.width * 0.05, centerY - box.height * 0.1, box.width * 0.05, 0, Math.PI * 2);
+        ctx.fill();
+    }
+    ctx.restore();
+}
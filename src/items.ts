@@ -0,0 +1,129 @@
+import { getImage } from './assets';
+import type { Random } from './Random';
+import type { ActiveEffect, BlockDrop, ChunkElement, DropTable, GameConfig, ItemDef, ItemEffect, ItemType, Rect } from './types';
+
+// Every item and what it does. Adding one here (and to ItemType) is enough for it to be
+// collected, counted, shown in the HUD and results, and placed in StageMaker.
+export const ITEMS: Record<ItemType, ItemDef> = {
+    onigiri: {
+        name: 'Onigiri',
+        icon: '🍙',
+        sprite: 'assets/onigiri.png',
+        effect: { type: 'speed', amount: -0.5, min: 0.5 }
+    },
+    icecream: {
+        name: 'Ice Cream',
+        icon: '🍦',
+        sprite: 'assets/icecream.png',
+        effect: { type: 'score', amount: 500 }
+    },
+    star: {
+        name: 'Star',
+        icon: '⭐',
+        sprite: 'assets/star.png',
+        effect: { type: 'doubleJump' }
+    },
+    shield: {
+        name: 'Shield',
+        icon: '🛡️',
+        effect: { type: 'shield' },
+        duration: 15000,
+        stacking: 'stack' // Each one takes a hit
+    },
+    magnet: {
+        name: 'Magnet',
+        icon: '🧲',
+        effect: { type: 'magnet', radius: 300, pull: 12 },
+        duration: 8000,
+        stacking: 'extend'
+    },
+    slowmo: {
+        name: 'Slow-mo',
+        icon: '⏳',
+        effect: { type: 'slowmo', factor: 0.6 },
+        duration: 5000,
+        stacking: 'refresh'
+    }
+};
+
+export const ITEM_TYPES = Object.keys(ITEMS) as ItemType[];
+
+export function isItemType(value: unknown): value is ItemType {
+    return typeof value === 'string' && value in ITEMS;
+}
+
+// Anything a breakable block or item spawn area can leave
+export const BLOCK_DROPS: BlockDrop[] = [...ITEM_TYPES, 'coin'];
+
+export function isBlockDrop(value: unknown): value is BlockDrop {
+    return isItemType(value) || value === 'coin';
+}
+
+// An item spawn area's odds, set per area with { "drops": { "star": 5, "none": 95, ... } }
+// (unknown entries and bad weights are dropped; an area with no odds of its own uses the config's)
+export function dropTable(el: ChunkElement, config: GameConfig): DropTable {
+    const drops = el.properties?.drops;
+    if (!drops || typeof drops !== 'object') return config.itemDropTable;
+
+    const table: DropTable = {};
+    for (const [drop, weight] of Object.entries(drops)) {
+        if ((isBlockDrop(drop) || drop === 'none') && typeof weight === 'number' && weight > 0) table[drop] = weight;
+    }
+    return table;
+}
+
+// Item an area always holds one of, set with { "guaranteed": "star" }
+export function guaranteedDrop(el: ChunkElement): BlockDrop | null {
+    const drop = el.properties?.guaranteed;
+    return isBlockDrop(drop) ? drop : null;
+}
+
+// Pick from a drop table (null for nothing). Always uses one number from the generator.
+export function rollDrop(table: DropTable, random: Random): BlockDrop | null {
+    const entries = Object.entries(table) as Array<[BlockDrop | 'none', number]>;
+    const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+    const rand = random.next();
+
+    let cumulative = 0;
+    for (const [drop, weight] of entries) {
+        cumulative += weight / total;
+        if (rand < cumulative) return drop === 'none' ? null : drop;
+    }
+    return null;
+}
+
+// A count of zero for every item
+export function emptyItemCounts(): Record<ItemType, number> {
+    return Object.fromEntries(ITEM_TYPES.map(type => [type, 0])) as Record<ItemType, number>;
+}
+
+// Effect of a running power-up, narrowed to one kind (null if it's another kind)
+export function effectOf<T extends ItemEffect['type']>(active: ActiveEffect, type: T): Extract<ItemEffect, { type: T }> | null {
+    const effect = ITEMS[active.item].effect;
+    return effect.type === type ? effect as Extract<ItemEffect, { type: T }> : null;
+}
+
+// Sprite filling the box, or the icon in a bubble for items without one
+export function drawItem(ctx: CanvasRenderingContext2D, box: Rect, type: ItemType) {
+    const item = ITEMS[type];
+    if (item.sprite) {
+        const img = getImage(item.sprite);
+        if (img.complete) ctx.drawImage(img, box.x, box.y, box.width, box.height);
+        return;
+    }
+
+    const radius = box.width / 2;
+    ctx.save();
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+    ctx.strokeStyle = '#4a5568'; // Gray-700
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.arc(box.x + radius, box.y + box.height / 2, radius, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+    ctx.font = `${Math.round(box.height * 0.6)}px sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(item.icon, box.x + radius, box.y + box.height / 2 + 2);
+    ctx.restore();
+}
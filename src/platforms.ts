@@ -0,0 +1,172 @@
+import { FIXED_TIMESTEP } from './config';
+import { BLOCK_DROPS } from './items';
+import type { BlockDrop, ChunkElement, GameConfig, PlatformPath, Rect, Vector2 } from './types';
+
+const BLOCK_SIZE = 100;
+
+export const PLATFORM_PATHS: PlatformPath[] = ['horizontal', 'vertical', 'loop'];
+
+// Tuning for moving platforms, each overridable through the element's properties:
+// { "path": "horizontal" | "vertical" | "loop", "range": blocks, "speed": blocks per second, "phase": 0-1 }
+export const MOVING_PLATFORM_DEFAULTS = { range: 2, speed: 1, phase: 0 };
+
+export function platformPath(el: ChunkElement): PlatformPath | null {
+    const path = el.properties?.path;
+    return el.type === 'platform' && PLATFORM_PATHS.includes(path) ? path : null;
+}
+
+function platformProperty(el: ChunkElement, name: keyof typeof MOVING_PLATFORM_DEFAULTS): number {
+    const value = el.properties?.[name];
+    return typeof value === 'number' ? value : MOVING_PLATFORM_DEFAULTS[name];
+}
+
+// Path length and speed (px per tick) of a platform that moves, or null if it stays put
+function platformMotion(el: ChunkElement): { path: PlatformPath, range: number, speed: number } | null {
+    const path = platformPath(el);
+    const range = platformProperty(el, 'range') * BLOCK_SIZE;
+    const speed = platformProperty(el, 'speed') * BLOCK_SIZE / 1000 * FIXED_TIMESTEP;
+    return path && range > 0 && speed > 0 ? { path, range, speed } : null;
+}
+
+// Where a moving platform is relative to where it was placed, `age` ticks after it appeared.
+// Horizontal paths go right of the placed spot and back, vertical ones up and back, and loops
+// circle anticlockwise through it; phase starts the platform part way along.
+export function platformOffset(el: ChunkElement, age: number): Vector2 {
+    const motion = platformMotion(el);
+    if (!motion) return { x: 0, y: 0 };
+
+    const { path, range, speed } = motion;
+    const travelled = age * speed;
+    const phase = platformProperty(el, 'phase');
+
+    if (path === 'loop') {
+        const radius = range / 2;
+        const angle = travelled / radius + phase * Math.PI * 2;
+        return { x: radius - radius * Math.cos(angle), y: -radius * Math.sin(angle) };
+    }
+
+    // Back and forth at a steady speed
+    const position = (travelled + phase * range * 2) % (range * 2);
+    const along = position <= range ? position : range * 2 - position;
+    return path === 'vertical' ? { x: 0, y: -along } : { x: along, y: 0 };
+}
+
+// Ticks for one full trip round the path (0 for platforms that stay put)
+export function platformPeriod(el: ChunkElement): number {
+    const motion = platformMotion(el);
+    if (!motion) return 0;
+    const length = motion.path === 'loop' ? Math.PI * motion.range : motion.range * 2;
+    return length / motion.speed;
+}
+
+// How far right of its placed position a moving platform can get (for the spatial index)
+export function platformReach(el: ChunkElement): number {
+    const path = platformPath(el);
+    return path === 'horizontal' || path === 'loop' ? Math.max(0, platformProperty(el, 'range') * BLOCK_SIZE) : 0;
+}
+
+// One-way platforms are thin planks the player jumps up through and lands on from above.
+// They're never rotated: "up" is always up.
+export const ONE_WAY_THICKNESS = 25;
+
+export function isOneWay(el: ChunkElement): boolean {
+    return el.type === 'platform' && el.blockType === 'oneway';
+}
+
+// Wooden plank along the top of the box, shared by the game and StageMaker
+export function drawOneWayPlatform(ctx: CanvasRenderingContext2D, box: Rect) {
+    const height = Math.min(box.height, ONE_WAY_THICKNESS);
+    ctx.fillStyle = '#b7791f'; // Yellow-700
+    ctx.fillRect(box.x, box.y, box.width, height);
+    ctx.fillStyle = '#d69e2e'; // Yellow-600, lit top edge
+    ctx.fillRect(box.x, box.y, box.width, 5);
+
+    // Board seams and outline
+    ctx.strokeStyle = '#744210'; // Yellow-900
+    ctx.lineWidth = 2;
+    for (let x = box.x + BLOCK_SIZE / 2; x < box.x + box.width; x += BLOCK_SIZE / 2) {
+        ctx.beginPath();
+        ctx.moveTo(x, box.y + 5);
+        ctx.lineTo(x, box.y + height);
+        ctx.stroke();
+    }
+    ctx.strokeRect(box.x, box.y, box.width, height);
+}
+
+// Crumbling blocks give way a while after being landed on, then drop out of the world
+export function isCrumbling(el: ChunkElement): boolean {
+    return el.type === 'platform' && el.blockType === 'crumble';
+}
+
+// ms from landing until it gives way, overridable per block with { "delay": ms }
+export function crumbleDelay(el: ChunkElement, config: GameConfig): number {
+    const value = el.properties?.delay;
+    return typeof value === 'number' && value >= 0 ? value : config.crumbleDelay;
+}
+
+// How far a block that gave way has fallen `age` ticks later
+export function fallOffset(age: number, gravity: number): Vector2 {
+    return { x: 0, y: gravity * age * age / 2 };
+}
+
+// Breakable blocks shatter when bonked from below, optionally leaving something behind
+export function isBreakable(el: ChunkElement): boolean {
+    return el.type === 'platform' && el.blockType === 'breakable';
+}
+
+export function breakableDrop(el: ChunkElement): BlockDrop | null {
+    const drop = el.properties?.drop;
+    return isBreakable(el) && BLOCK_DROPS.includes(drop) ? drop : null;
+}
+
+// Sandy block with cracks, shared by the game and StageMaker
+export function drawCrumblingBlock(ctx: CanvasRenderingContext2D, box: Rect) {
+    ctx.save();
+    ctx.fillStyle = '#d69e6b';
+    ctx.fillRect(box.x, box.y, box.width, box.height);
+    ctx.strokeStyle = '#8b5e34';
+    ctx.lineWidth = 3;
+    ctx.strokeRect(box.x, box.y, box.width, box.height);
+
+    // The same cracks in every block
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    for (let x = box.x; x < box.x + box.width; x += BLOCK_SIZE) {
+        ctx.moveTo(x + 20, box.y);
+        ctx.lineTo(x + 35, box.y + 30);
+        ctx.lineTo(x + 25, box.y + 55);
+        ctx.moveTo(x + 35, box.y + 30);
+        ctx.lineTo(x + 60, box.y + 40);
+        ctx.lineTo(x + 75, box.y + 75);
+        ctx.moveTo(x + 60, box.y + 40);
+        ctx.lineTo(x + 85, box.y + 20);
+    }
+    ctx.stroke();
+    ctx.restore();
+}
+
+// Red brick wall, shared by the game and StageMaker
+export function drawBreakableBlock(ctx: CanvasRenderingContext2D, box: Rect) {
+    const rowHeight = 25;
+    ctx.save();
+    ctx.fillStyle = '#c05621'; // Orange-700
+    ctx.fillRect(box.x, box.y, box.width, box.height);
+
+    // Mortar: rows of bricks, every other row offset by half a brick
+    ctx.strokeStyle = '#fbd38d'; // Orange-300
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    for (let row = 0; row * rowHeight < box.height; row++) {
+        const y = box.y + row * rowHeight;
+        ctx.moveTo(box.x, y);
+        ctx.lineTo(box.x + box.width, y);
+        for (let x = box.x + (row % 2 === 0 ? BLOCK_SIZE / 2 : BLOCK_SIZE / 4); x < box.x + box.width; x += BLOCK_SIZE / 2) {
+            ctx.moveTo(x, y);
+            ctx.lineTo(x, Math.min(y + rowHeight, box.y + box.height));
+        }
+    }
+    ctx.stroke();
+    ctx.strokeStyle = '#7b341e'; // Orange-900
+    ctx.strokeRect(box.x, box.y, box.width, box.height);
+    ctx.restore();
+}
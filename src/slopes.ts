@@ -0,0 +1,100 @@
+import type { ChunkElement, Rect, SlopeType } from './types';
+
+const GENTLE_RISE = Math.tan(Math.PI / 8); // 22.5°: about 41px over a 100px block
+
+// Height of the solid part at the left and right edges of an unturned, unmirrored slope, as shares
+// of the block. A 22.5° climb doesn't come out even on the grid, so there are two gentle tiles:
+// one starting level with the ground and one ending level with the top of a block. Side by side
+// they meet at a step of about 17px, which is run over like any ledge below stepUpHeight.
+const SLOPE_EDGES: Record<SlopeType, [number, number]> = {
+    slope: [0, 1], // 45°
+    slope_low: [0, GENTLE_RISE],
+    slope_high: [1 - GENTLE_RISE, 1]
+};
+
+export function isSlope(el: ChunkElement): boolean {
+    return el.type === 'platform' && !!el.blockType && el.blockType in SLOPE_EDGES;
+}
+
+// 1 for floor slopes (solid below the surface), -1 for ceiling slopes (turned 180°, solid above it).
+// Slopes only turn in 180° steps.
+export function slopeFacing(el: ChunkElement): 1 | -1 {
+    const halfTurns = ((Math.round((el.rotation || 0) / 180) % 2) + 2) % 2;
+    return halfTurns === 0 ? 1 : -1;
+}
+
+// Thickness in px of the solid part at the slope's left and right edges, as it stands in the world
+function slopeEdges(el: ChunkElement): [number, number] {
+    const [left, right] = SLOPE_EDGES[el.blockType as SlopeType];
+    // Mirroring swaps the edges, and so does turning it upside down
+    const swapped = !!el.mirror !== (slopeFacing(el) === -1);
+    return swapped ? [right * el.height, left * el.height] : [left * el.height, right * el.height];
+}
+
+// Thickness of the solid part at a screen x (clamped to the slope)
+function thicknessAt(el: ChunkElement, x: number): number {
+    const [left, right] = slopeEdges(el);
+    const t = Math.max(0, Math.min(1, (x - el.x) / el.width));
+    return left + (right - left) * t;
+}
+
+// Box around the solid part
+export function slopeSolidBox(el: ChunkElement): Rect {
+    const thickest = Math.max(...slopeEdges(el));
+    const y = slopeFacing(el) === 1 ? el.y + el.height - thickest : el.y;
+    return { x: el.x, y, width: el.width, height: thickest };
+}
+
+// How much of a side the solid part covers: [top, bottom] in screen y at its left edge
+export function slopeLeftEdge(el: ChunkElement): [number, number] {
+    const thickness = slopeEdges(el)[0];
+    return slopeFacing(el) === 1 ? [el.y + el.height - thickness, el.y + el.height] : [el.y, el.y + thickness];
+}
+
+// Surface y under a span of screen x (clamped to the slope) that sticks out furthest towards the
+// open side: the highest point for floor slopes, the lowest for ceiling slopes
+export function slopeSurface(el: ChunkElement, x: number, width: number): number {
+    const thickest = Math.max(thicknessAt(el, x), thicknessAt(el, x + width));
+    return slopeFacing(el) === 1 ? el.y + el.height - thickest : el.y + thickest;
+}
+
+// Rise per px run
+export function slopeSteepness(el: ChunkElement): number {
+    const [left, right] = slopeEdges(el);
+    return Math.abs(right - left) / el.width;
+}
+
+// Drawn as if unturned and unmirrored; callers turn and mirror the context about the block
+export function drawSlope(ctx: CanvasRenderingContext2D, el: ChunkElement, soil: HTMLImageElement) {
+    const [left, right] = SLOPE_EDGES[el.blockType as SlopeType];
+    const bottom = el.y + el.height;
+    const leftY = bottom - left * el.height;
+    const rightY = bottom - right * el.height;
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.moveTo(el.x, bottom);
+    ctx.lineTo(el.x, leftY);
+    ctx.lineTo(el.x + el.width, rightY);
+    ctx.lineTo(el.x + el.width, bottom);
+    ctx.closePath();
+    ctx.clip();
+    if (soil.complete) {
+        ctx.drawImage(soil, el.x, el.y, el.width, el.height);
+    } else {
+        ctx.fillStyle = '#4a5568';
+        ctx.fillRect(el.x, el.y, el.width, el.height);
+    }
+    ctx.restore();
+
+    // Grass along the surface
+    ctx.save();
+    ctx.strokeStyle = '#48bb78'; // Green-500
+    ctx.lineWidth = 10;
+    ctx.lineCap = 'round';
+    ctx.beginPath();
+    ctx.moveTo(el.x, leftY + 4);
+    ctx.lineTo(el.x + el.width, rightY + 4);
+    ctx.stroke();
+    ctx.restore();
+}
@@ -0,0 +1,87 @@
+import type { ChunkElement, GameConfig, Rect, TriggerType } from './types';
+
+export const TRIGGER_TYPES: TriggerType[] = ['spring', 'boost', 'slow', 'gravity_flip'];
+
+export function isTriggerType(value: unknown): value is TriggerType {
+    return TRIGGER_TYPES.includes(value as TriggerType);
+}
+
+export function triggerType(el: ChunkElement): TriggerType | null {
+    return el.type === 'trigger' && isTriggerType(el.subtype) ? el.subtype : null;
+}
+
+// Part of the cell that sets a trigger off, as if unrotated (springs and pads sit on the floor of
+// their cell, or on whichever side the rotation turns that to)
+export function triggerArea(el: ChunkElement): Rect {
+    const type = triggerType(el);
+    if (type === 'spring') return { x: el.width * 0.2, y: el.height * 0.7, width: el.width * 0.6, height: el.height * 0.3 };
+    if (type === 'boost' || type === 'slow') return { x: 0, y: el.height * 0.8, width: el.width, height: el.height * 0.2 };
+    return { x: 0, y: 0, width: el.width, height: el.height };
+}
+
+// Launch speed of a spring, overridable per spring with { "launch": px per tick }
+export function springLaunch(el: ChunkElement, config: GameConfig): number {
+    const value = el.properties?.launch;
+    return typeof value === 'number' && value > 0 ? value : config.springLaunch;
+}
+
+// Drawn as if unrotated; callers rotate the context about the cell like for other elements
+export function drawTrigger(ctx: CanvasRenderingContext2D, el: ChunkElement) {
+    const type = triggerType(el);
+    const area = triggerArea(el);
+    const x = el.x + area.x;
+    const y = el.y + area.y;
+
+    ctx.save();
+    ctx.strokeStyle = 'black';
+    ctx.lineWidth = 3;
+
+    if (type === 'spring') {
+        // Coil between a base plate and a red pad
+        ctx.beginPath();
+        const coils = 4;
+        for (let i = 0; i <= coils * 2; i++) {
+            const px = x + area.width * (i % 2 === 0 ? 0.25 : 0.75);
+            const py = y + area.height - 6 - (area.height - 12) * i / (coils * 2);
+            if (i === 0) ctx.moveTo(px, py);
+            else ctx.lineTo(px, py);
+        }
+        ctx.stroke();
+        ctx.fillStyle = '#718096'; // Gray-600
+        ctx.fillRect(x, y + area.height - 6, area.width, 6);
+        ctx.strokeRect(x, y + area.height - 6, area.width, 6);
+        ctx.fillStyle = '#e53e3e'; // Red-600
+        ctx.fillRect(x, y, area.width, 8);
+        ctx.strokeRect(x, y, area.width, 8);
+    } else if (type === 'boost' || type === 'slow') {
+        // Pad with chevrons pointing the way it pushes
+        ctx.fillStyle = type === 'boost' ? '#48bb78' : '#4299e1'; // Green-500 / Blue-500
+        ctx.fillRect(x, y, area.width, area.height);
+        ctx.strokeRect(x, y, area.width, area.height);
+
+        ctx.strokeStyle = 'white';
+        const dir = type === 'boost' ? 1 : -1;
+        for (const cx of [0.3, 0.5, 0.7]) {
+            const tipX = x + area.width * cx + dir * 6;
+            ctx.beginPath();
+            ctx.moveTo(tipX - dir * 12, y + 4);
+            ctx.lineTo(tipX, y + area.height / 2);
+            ctx.lineTo(tipX - dir * 12, y + area.height - 4);
+            ctx.stroke();
+        }
+    } else if (type === 'gravity_flip') {
+        // See-through zone with arrows both ways
+        ctx.fillStyle = 'rgba(128, 90, 213, 0.25)'; // Purple-600
+        ctx.fillRect(x, y, area.width, area.height);
+        ctx.strokeStyle = 'rgba(128, 90, 213, 0.8)';
+        ctx.setLineDash([8, 6]);
+        ctx.strokeRect(x, y, area.width, area.height);
+        ctx.setLineDash([]);
+        ctx.fillStyle = 'rgba(85, 60, 154, 0.9)'; // Purple-700
+        ctx.font = `bold ${Math.round(area.height * 0.5)}px Arial`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText('⇅', x + area.width / 2, y + area.height / 2);
+    }
+    ctx.restore();
+}
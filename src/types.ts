@@ -16,10 +16,11 @@ export interface Rect {
 }
 
 export interface ChunkElement {
-    type: 'platform' | 'coin' | 'enemy' | 'decoration' | 'item' | 'item_area' | 'thorn';
-    subtype?: 'plant' | 'stone' | 'flower' | 'onigiri' | 'icecream' | 'star';
-    blockType?: 'grass' | 'soil' | 'stone' | 'thorn';
+    type: 'platform' | 'coin' | 'enemy' | 'decoration' | 'item' | 'item_area' | 'thorn' | 'trigger';
+    subtype?: 'plant' | 'stone' | 'flower' | ItemType | EnemyType | TriggerType;
+    blockType?: 'grass' | 'soil' | 'stone' | 'thorn' | 'oneway' | 'crumble' | 'breakable' | SlopeType;
     rotation?: number; // 0, 90, 180, 270
+    mirror?: boolean; // Flipped left to right (before rotating)
     x: number; // Relative to chunk start
     y: number;
     width: number;
@@ -38,4 +39,193 @@ export interface GameConfig {
     jumpForce: number;
     baseSpeed: number;
     speedIncreaseRate: number;
+
+    // Variable jump height: letting go of jump early cuts the rise short
+    minJumpVelocity: number; // Upward velocity a cut jump keeps at the very least
+    jumpHoldWindow: number; // ms after takeoff in which letting go still shortens the jump
+    jumpReleaseCutoff: number; // Share (0-1) of the upward velocity kept on an early release
+
+    coyoteTime: number; // ms after running off a ledge in which a ground jump still works
+    jumpBufferTime: number; // ms before landing in which a press is kept and jumps on landing
+
+    stepUpHeight: number; // Running into a ledge at most this far above the feet steps onto it instead of hitting it
+    headClipHeight: number; // Rising into a block's side at most this far below its bottom bonks instead of hitting it
+
+    stompBounce: number; // Upward velocity after stomping an enemy
+    stompScore: number;
+    coinScore: number; // Kept small so a trail of coins adds up (and combos well) rather than one big reward
+    nearMissScore: number; // Clearing a thorn with at most nearMissGap px to spare
+    nearMissGap: number;
+    airChainScore: number; // Per pickup after the first without touching the ground, times the place in the chain
+    starBonus: number; // Per double jump still unused at the end of a run
+
+    comboStep: number; // Added to the score multiplier by each scoring move (pickups, stomps, near misses, chains)
+    comboMax: number;
+    comboHold: number; // ms the multiplier holds after a scoring move before it starts to drain
+    comboDecay: number; // Multiplier drained per second after that
+
+    springLaunch: number; // Speed a spring launches the player away from it at, unless the spring sets its own
+    boostPadFactor: number; // Speed multiplier while a boost pad is in effect
+    slowPadFactor: number; // Likewise for a slow pad
+    speedPadDuration: number; // ms a boost or slow pad lasts
+
+    crumbleDelay: number; // ms a crumbling block holds after being landed on, unless the block sets its own
+
+    itemDropTable: DropTable; // Odds for each cell of an item spawn area, unless the area sets its own
+}
+
+// A platform the player touched this tick; normal is the face it touched, e.g. (0, -1) for the top
+export interface Contact {
+    element: ChunkElement;
+    normal: Vector2;
+}
+
+export type JumpInput = 'press' | 'release';
+
+// Compact log of a run: everything needed to re-simulate it tick for tick
+export interface RunRecording {
+    version: number;
+    seed: number;
+    ticks: number; // Total ticks simulated
+    inputs: Array<[number, JumpInput]>; // [tick, input]
+    chunks: Array<[number, string]>; // [tick, chunk id] pulled from the stage queue
+}
+
+// Player positions sampled during a run, raced against as a translucent ghost
+export interface GhostData {
+    version: number;
+    seed: number; // Racing a ghost replays its seed so both runs see the same stage
+    interval: number; // Ticks between samples
+    frames: Array<[number, number, number]>; // [total distance, player y, flags: 1 = grounded, 2 = gravity flipped]
+}
+
+// One row of the rankings, as GET /scores sends it
+export interface ScoreEntry {
+    id: string;
+    name: string;
+    score: number;
+    level: number;
+    max_speed: number;
+    items: Partial<Record<ItemType, number>>;
+    has_replay: boolean; // Fetch it from /scores/{id}/replay
+    has_ghost: boolean; // Fetch it from /scores/{id}/ghost
+}
+
+// Every item there is; what each one does lives in the registry in items.ts
+export type ItemType = 'onigiri' | 'icecream' | 'star' | 'shield' | 'magnet' | 'slowmo';
+
+// What picking an item up does
+export type ItemEffect =
+    | { type: 'speed', amount: number, min: number } // Change the run's speed, but not below min
+    | { type: 'score', amount: number }
+    | { type: 'doubleJump' }
+    | { type: 'shield' } // Absorbs one thorn hit while it lasts
+    | { type: 'magnet', radius: number, pull: number } // Draws items and coins within radius px in, pull px per tick
+    | { type: 'slowmo', factor: number }; // Scroll speed is multiplied by factor while it lasts
+
+export interface ItemDef {
+    name: string;
+    icon: string; // Shown in the HUD, results and rankings
+    sprite?: string; // Drawn in play; items without one are drawn as their icon in a bubble
+    effect: ItemEffect;
+    duration?: number; // ms; only timed power-ups have one
+    // Picking up another while one is running: restart its timer, add to it, or run both side by side
+    stacking?: 'refresh' | 'extend' | 'stack';
+}
+
+// A timed power-up in effect (ms)
+export interface ActiveEffect {
+    item: ItemType;
+    remaining: number;
+    duration: number; // What remaining counts down from, for the HUD timer
+}
+
+// What a breakable block can leave behind
+export type BlockDrop = ItemType | 'coin';
+
+// Relative odds of what turns up in an item spawn area cell ('none' for nothing), rolled in key order
+export type DropTable = Partial<Record<BlockDrop | 'none', number>>;
+
+export type EnemyType = 'walker' | 'hopper' | 'flyer';
+
+// Tiles that act on the player when touched rather than blocking them
+export type TriggerType = 'spring' | 'boost' | 'slow' | 'gravity_flip';
+
+// Sloped ground: 45°, and 22.5° starting from the ground (low) or reaching a block's top (high)
+export type SlopeType = 'slope' | 'slope_low' | 'slope_high';
+
+export type PlatformPath = 'horizontal' | 'vertical' | 'loop';
+
+// Where points come from, in the order the game-over breakdown lists them
+export type ScoreSource = 'distance' | 'item' | 'coin' | 'stomp' | 'nearMiss' | 'airChain' | 'starBonus';
+
+export type DeathCause = 'fall' | 'wall' | 'thorn' | 'enemy';
+
+// Things that happened during a simulation tick, for the game to react to (sounds, effects)
+export type SimulationEvent =
+    | { type: 'jump' } // A buffered press firing on landing (direct jumps are reported by applyInput)
+    | { type: 'item', subtype: ItemType }
+    | { type: 'coin' }
+    | { type: 'levelUp', level: number }
+    | { type: 'speedUp', speed: number } // The run's speed went up a step (not pads or slow-mo)
+    | { type: 'stomp', x: number, y: number } // Where the enemy was, in screen coordinates
+    | { type: 'shield', x: number, y: number } // A shield took a thorn hit there
+    | { type: 'score', source: ScoreSource, points: number, combo: number } // Points scored, combo multiplier included
+    | { type: 'spring' }
+    | { type: 'speedPad', subtype: 'boost' | 'slow' }
+    | { type: 'gravityFlip', flipped: boolean }
+    | { type: 'blockBreak', blockType: 'crumble' | 'breakable', x: number, y: number, width: number, height: number } // Screen box it was in
+    | { type: 'death', cause: DeathCause };
+
+export type AchievementId = 'level8' | 'speed3' | 'stars10' | 'testClear3' | 'nearMiss5' | 'maxCombo' | 'stomps50' | 'coins500';
+
+// What achievements are judged on: counts for the run in progress, and totals over every run
+export interface AchievementStats {
+    level: number;
+    speed: number;
+    stars: number;
+    nearMisses: number;
+    combo: number;
+    testClearSpeed: number; // Fastest speed a custom stage was cleared at in test mode
+    totalStomps: number;
+    totalCoins: number;
+}
+
+export interface AchievementDef {
+    name: string;
+    description: string;
+    icon: string;
+    stat: keyof AchievementStats;
+    goal: number; // Unlocked once the stat reaches this
+}
+
+// What achievements hear about: everything the simulation reports, plus the end of a test run
+export type AchievementEvent = SimulationEvent | { type: 'testClear', speed: number };
+
+// One finished run, as kept in the player's profile
+export interface RunRecord {
+    date: number; // Date.now() when it ended
+    score: number;
+    level: number;
+    maxSpeed: number;
+    items: Record<ItemType, number>;
+    coins: number;
+    duration: number; // ms played
+    deathCause: DeathCause | null;
+}
+
+export interface PersonalBests {
+    score: number;
+    level: number;
+    maxSpeed: number;
+    duration: number;
+    coins: number;
+}
+
+// Everything the player's profile holds; also the format it's exported and imported in
+export interface ProfileData {
+    version: 1;
+    name: string;
+    runs: RunRecord[]; // Oldest first
+    bests: PersonalBests; // Over every run, including ones dropped from the history
 }